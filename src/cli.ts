@@ -4,23 +4,79 @@ import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import * as fs from "fs-extra";
 import * as path from "path";
-import YAML from "yaml";
+import { format } from "util";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { Ora } from "ora";
+import { z, ZodTypeAny } from "zod";
 import { callModel } from "./lib/model-router";
-import { Critique, Plan, Retell } from "./schemas";
+import { cacheStats, configureCache, parseTtl } from "./lib/cache";
+import { configureRateLimits, configureResilience, loadResiliencePolicy, setAttemptLog } from "./lib/resilience";
+import { configureProviders, DEFAULT_PROVIDERS_FILE, loadProvidersConfig } from "./lib/providers";
+import {
+  configurePrices,
+  DEFAULT_PRICES_FILE,
+  groupUsage,
+  loadPriceTable,
+  readUsageLog,
+  setUsageLog,
+  setUsageStage,
+  sumUsage,
+  UsageTotals,
+  usageSummary
+} from "./lib/usage";
+import { applyGenrePreset, bibleRequest, formatBible, loadBible, loadGenrePreset } from "./lib/bible";
+import { ConfigValidationError, formatDiagnostic } from "./lib/config";
+import { activeRetellPolicy, comparePanelRetells } from "./lib/retell-compare";
+import { BudgetCheck, checkBudget, PlannedCall, projectCycle, resolveBudget } from "./lib/budget";
+import { evaluateGate, formatRule, GateFailedError, loadGatePolicy, resolvePolicyPath } from "./lib/gate";
+import { callStructured } from "./lib/structured";
+import {
+  bibleVariables,
+  formatPriorCritique,
+  promptNameFor,
+  renderPrompt,
+  resolvePrompt,
+  ROLE_PROMPTS,
+  TemplateVariables
+} from "./lib/prompts";
+import { countWords, lintStory, parseBeats, stripBeatTags, LintReport } from "./lib/lint";
+import { formByName, FORMS, resolveForm } from "./lib/forms";
+import { citedJudges, judgeIdFromFile, judgeSystemPrompt, loadPanel, quorum, resolvePanelPath } from "./lib/panel";
+import { RunManifest } from "./lib/manifest";
+import { routeConsoleToRunLogs, runContext, withRunContext } from "./lib/run-context";
+import { withDirLock } from "./lib/dir-lock";
+import { expandGlob } from "./lib/glob";
+import { renderReport, ReportData } from "./lib/report";
+import { analyzePov, citesPov, povConfusions, resolveLexicon } from "./lib/pov";
+import { groundCritique, GroundingSummary } from "./lib/grounding";
+import { checkRevision, llmCheckRevision, RevisionCheck } from "./lib/revision-check";
+import { AppliedEdit, cleanReplacement, planSurgicalEdits, spanRequest, spliceEdits, SurgicalPlan } from "./lib/surgical";
+import { BibleDraft, BibleDraftWithBudget, Critique, Judge, Panel, Plan, PromptName, Retell, StoryBible } from "./schemas";
 
 dotenv.config();
+routeConsoleToRunLogs();
 
 // Helper functions
-async function loadPrompt(name: string): Promise<string> {
-  const promptPath = path.join(__dirname, `prompts/${name}.txt`);
-  return await fs.readFile(promptPath, "utf-8");
+/**
+ * Render a prompt template resolved through the bible → project → built-in
+ * chain. Bible variables are filled in whenever a bible is available.
+ */
+async function loadPrompt(
+  name: PromptName,
+  argv: any,
+  bible: StoryBible | null,
+  variables: TemplateVariables = {}
+): Promise<string> {
+  const prompt = await resolvePrompt(name, bible, argv.bible);
+  if (argv.verbose && prompt.source !== "builtin") {
+    console.log(chalk.blue(`Prompt ${name}:`), `${prompt.source} (${prompt.path})`);
+  }
+  return renderPrompt(prompt, { ...(bible && bibleVariables(bible)), ...variables });
 }
 
-async function loadBible(biblePath: string): Promise<any> {
-  const content = await fs.readFile(biblePath, "utf-8");
-  return YAML.parse(content);
+/** Spinners are silent in runs whose output goes to a run log (batch mode) */
+function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: Boolean(runContext().logFile) }).start();
 }
 
 function speak(text: string, enabled: boolean) {
@@ -29,31 +85,117 @@ function speak(text: string, enabled: boolean) {
   }
 }
 
-async function parseJson<T>(
-  raw: string,
-  schema: any,
-  outputPath: string,
-  retry: boolean = true
-): Promise<T> {
-  try {
-    // Strip markdown code blocks if present
-    let cleaned = raw.trim();
-    if (cleaned.startsWith("```json")) {
-      cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (cleaned.startsWith("```")) {
-      cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
-    }
+interface JsonCall {
+  model: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  temperature: number;
+  schema: ZodTypeAny;
+  schemaName: string;
+  outPath: string;
+  repairHint?: string;
+  role: string;
+}
 
-    const parsed = JSON.parse(cleaned);
-    return schema.parse(parsed);
-  } catch (err) {
-    const rawPath = outputPath.replace(/\.json$/, "_raw.txt");
-    await fs.writeFile(rawPath, raw);
-    if (retry) {
-      throw new Error(`Invalid JSON. Saved to ${rawPath}. Retry needed.`);
+/**
+ * Call a model for JSON through the structured-output layer: native schema
+ * mode where the provider has one, local fixes for recoverable issues, and up
+ * to two repair requests quoting the validation errors. Invalid responses are
+ * saved next to `outPath` as `*_raw.txt`.
+ */
+async function callJson<T>(call: JsonCall, spinner: Reporter, label: string): Promise<T> {
+  const { outPath, ...structured } = call;
+  const result = await callStructured<T>(
+    { ...structured, rawPath: outPath.replace(/\.json$/, "_raw.txt") },
+    (attempt, issues) => {
+      const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+      spinner.warn(`${label} returned invalid JSON: ${issues[0]}${more}`);
+      spinner.start(`${label} (repair ${attempt})`);
     }
-    throw err;
+  );
+  spinner.succeed(`${label} complete${result.attempts > 1 ? ` (repaired after ${result.attempts} calls)` : ""}`);
+  for (const fix of result.localFixes) {
+    (spinner.log ?? console.log)(chalk.yellow(`  fixed locally: ${fix}`));
+  }
+  return result.value;
+}
+
+/** The part of an ora spinner that stages report progress through; `log` defaults to console.log */
+interface Reporter {
+  start(text?: string): unknown;
+  warn(text?: string): unknown;
+  succeed(text?: string): unknown;
+  log?: (...args: unknown[]) => void;
+}
+
+/**
+ * Run one task per judge concurrently. The spinner shows every judge's state
+ * while each judge's messages are held back and printed in panel order once
+ * all have settled, so output never interleaves. A failing judge doesn't stop
+ * the others (whatever they write is kept); the stage throws afterwards,
+ * naming every judge that failed.
+ */
+async function runJudges<T>(
+  judges: Judge[],
+  spinner: Ora,
+  label: string,
+  task: (judge: Judge, reporter: Reporter) => Promise<T>
+): Promise<T[]> {
+  const states = new Map(judges.map((judge) => [judge.id, "…"]));
+  const output = new Map(judges.map((judge) => [judge.id, [] as string[]]));
+  const render = () => {
+    spinner.text = `Judges (${label}): ${judges.map((judge) => `${judge.id} ${states.get(judge.id)}`).join(" · ")}`;
+  };
+  render();
+  spinner.start();
+
+  const settled = await Promise.allSettled(
+    judges.map((judge) => {
+      const lines = output.get(judge.id)!;
+      const update = (state: string) => {
+        states.set(judge.id, state);
+        render();
+      };
+      const reporter: Reporter = {
+        start: () => update("…"),
+        warn: (text) => {
+          lines.push(`${chalk.yellow("⚠")} ${text}`);
+          update("repairing");
+        },
+        succeed: (text) => {
+          lines.push(`${chalk.green("✔")} ${text}`);
+          update("✓");
+        },
+        log: (...args) => lines.push(format(...args))
+      };
+      return task(judge, reporter).catch((err) => {
+        lines.push(`${chalk.red("✖")} Judge ${judge.id} ${label} failed: ${(err as Error).message}`);
+        update("✗");
+        throw err;
+      });
+    })
+  );
+  spinner.stop();
+  for (const judge of judges) {
+    for (const line of output.get(judge.id)!) console.log(line);
   }
+
+  const failed = judges.filter((_, i) => settled[i].status === "rejected");
+  if (failed.length) {
+    const reasons = failed.map((judge) => {
+      const result = settled[judges.indexOf(judge)] as PromiseRejectedResult;
+      return `${judge.id} (${(result.reason as Error).message})`;
+    });
+    throw new Error(`${failed.length} of ${judges.length} judge(s) failed ${label}: ${reasons.join("; ")}`);
+  }
+  return settled.map((result) => (result as PromiseFulfilledResult<T>).value);
+}
+
+async function resolvePanel(argv: any, bible: StoryBible | null): Promise<Panel> {
+  return loadPanel(resolvePanelPath(argv.panel, argv.bible, bible), {
+    judgeA: argv.judgeA,
+    judgeB: argv.judgeB
+  });
 }
 
 function slugify(text: string): string {
@@ -68,52 +210,55 @@ function slugify(text: string): string {
     .slice(0, 60);
 }
 
+/** Per-cycle artifacts carry their cycle, so a later cycle never rewrites an earlier checkpoint's inputs */
 const RUN_FILE_NAMES = {
   draft: "01-draft.md",
-  critiqueClaude: "02-critique_claude.json",
-  critiqueDeepseek: "03-critique_deepseek.json",
-  plan: "04-plan.json",
+  critique: (cycle: number, judgeId: string) => `02-c${cycle}-critique_${judgeId}.json`,
+  pov: (cycle: number) => `03-c${cycle}-pov.json`,
+  plan: (cycle: number) => `04-c${cycle}-plan.json`,
   revised: (cycle: number) => `05-${String(cycle).padStart(2, "0")}-revised.md`,
-  retellClaude: "06-retell_claude.json",
-  retellDeepseek: "07-retell_deepseek.json",
+  verify: (cycle: number) => `05-${String(cycle).padStart(2, "0")}-verify.json`,
+  retell: (cycle: number, judgeId: string) => `06-c${cycle}-retell_${judgeId}.json`,
   published: "08-published.md",
   title: "09-title.txt",
-  metadata: "10-metadata.json"
+  metadata: "10-metadata.json",
+  gate: (cycle: number) => `11-c${cycle}-gate.json`,
+  attempts: "12-attempts.jsonl",
+  usage: "13-usage.jsonl",
+  log: "14-run.log",
+  report: "15-report.html",
+  lint: (storyFile: string) => storyFile.replace(/\.md$/, ".lint.json")
 } as const;
 
+/** Allocate the next run index; the lock keeps concurrent runs (batch, parallel shells) from sharing one */
 async function determineNextRunDir(baseOut: string): Promise<{ index: string; dir: string }> {
-  await fs.ensureDir(baseOut);
-  const entries = await fs.readdir(baseOut).catch(() => [] as string[]);
-  let maxIndex = 0;
-
-  for (const entry of entries) {
-    const match = entry.match(/^(\d{3})/);
-    if (!match) continue;
-    const entryPath = path.join(baseOut, entry);
-    try {
-      const stats = await fs.stat(entryPath);
-      if (!stats.isDirectory()) continue;
-      maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
-    } catch {
-      // ignore entries we can't stat
+  return withDirLock(baseOut, async () => {
+    const entries = await fs.readdir(baseOut).catch(() => [] as string[]);
+    let maxIndex = 0;
+
+    for (const entry of entries) {
+      const match = entry.match(/^(\d{3})/);
+      if (!match) continue;
+      const entryPath = path.join(baseOut, entry);
+      try {
+        const stats = await fs.stat(entryPath);
+        if (!stats.isDirectory()) continue;
+        maxIndex = Math.max(maxIndex, parseInt(match[1], 10));
+      } catch {
+        // ignore entries we can't stat
+      }
     }
-  }
 
-  let next = maxIndex + 1;
-  while (true) {
-    const index = String(next).padStart(3, "0");
-    const candidate = path.join(baseOut, index);
-    if (!(await fs.pathExists(candidate))) {
-      await fs.ensureDir(candidate);
-      return { index, dir: candidate };
-    }
-    next++;
-  }
+    const index = String(maxIndex + 1).padStart(3, "0");
+    const dir = path.join(baseOut, index);
+    await fs.ensureDir(dir);
+    return { index, dir };
+  });
 }
 
 async function generateTitle(story: string, argv: any): Promise<string> {
-  const titlePrompt = await loadPrompt("title");
-  const prompt = titlePrompt.replace("{{STORY}}", story.trim());
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const prompt = await loadPrompt("title", argv, bible, { STORY: story });
   const model =
     argv.titleModel ||
     process.env.TITLE_MODEL ||
@@ -125,11 +270,12 @@ async function generateTitle(story: string, argv: any): Promise<string> {
     console.log(chalk.blue("Title model:"), model);
   }
 
-  const raw = await callModel({
+  const { text: raw } = await callModel({
     model,
     userPrompt: prompt,
     temperature: 0.4,
-    responseFormat: "text"
+    responseFormat: "text",
+    role: "title"
   });
 
   const cleaned = raw.trim().split(/\r?\n/)[0]?.trim() || "";
@@ -137,8 +283,85 @@ async function generateTitle(story: string, argv: any): Promise<string> {
 }
 
 // Command handlers
+async function handleBible(argv: any) {
+  const count = argv.candidates;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("--candidates must be a positive integer");
+  }
+  const preset = argv.genre ? await loadGenrePreset(argv.genre) : null;
+  const form = argv.form ?? preset?.form;
+  const storyForm = form ? formByName(form) : null;
+  const base = argv.out.replace(/\.ya?ml$/, "");
+  const outputs =
+    count === 1 ? [argv.out] : Array.from({ length: count }, (_, i) => `${base}-${i + 1}.yaml`);
+  if (!argv.force) {
+    const existing: string[] = [];
+    for (const file of outputs) {
+      if (await fs.pathExists(file)) existing.push(file);
+    }
+    if (existing.length) {
+      throw new Error(`Refusing to overwrite ${existing.join(", ")} (use --force)`);
+    }
+  }
+
+  const systemPrompt = await loadPrompt("bible", argv, null);
+  const request = (index: number) => bibleRequest(argv.logline, preset, storyForm, { index, count });
+  const draftSchema = storyForm || preset?.beat_budget ? BibleDraft : BibleDraftWithBudget;
+  if (argv.dry) {
+    console.log(systemPrompt, "\n\n" + request(1));
+    console.log(chalk.yellow("Dry run - skipping API call"));
+    return;
+  }
+
+  const model = argv.writer || process.env.WRITER_MODEL || "openai/gpt-4o-mini";
+  if (argv.verbose) {
+    console.log(chalk.blue("Model:"), model);
+  }
+
+  speak("Generating Story Bible", argv.speak);
+  const labelFor = (i: number) => (count === 1 ? "Story Bible" : `Candidate ${i + 1}/${count}`);
+  const spinner = startSpinner(labelFor(0));
+  const written: Array<{ file: string; bible: StoryBible }> = [];
+  for (const [i, file] of outputs.entries()) {
+    const label = labelFor(i);
+    if (i) spinner.start(label);
+    const draft = await callJson<z.infer<typeof BibleDraft>>(
+      {
+        model,
+        systemPrompt,
+        userPrompt: request(i + 1),
+        temperature: count === 1 ? 0.7 : 0.9,
+        schema: draftSchema,
+        schemaName: "story_bible",
+        outPath: `${count === 1 ? base : `${base}-${i + 1}`}.json`,
+        role: "bible-writer"
+      },
+      spinner,
+      label
+    );
+    const bible = applyGenrePreset(draft, preset, argv.form ?? null);
+    const { beats, word_cap } = resolveForm(bible);
+    const budget = beats.reduce((sum, beat) => sum + beat.budget, 0);
+    if (budget > word_cap) {
+      console.log(chalk.yellow(`⚠ ${file}: beat budgets add up to ${budget}, over the ${word_cap}-word cap`));
+    }
+    const comments = [`Generated from the logline: ${argv.logline}`, ...(argv.genre ? [`Genre preset: ${argv.genre}`] : [])];
+    await fs.ensureDir(path.dirname(file));
+    await fs.writeFile(file, formatBible(bible, comments));
+    written.push({ file, bible });
+  }
+
+  for (const { file, bible } of written) {
+    console.log(chalk.green(`✓ ${file}`), bible.premise, chalk.gray(`(${bible.theme})`));
+  }
+  if (count > 1) {
+    console.log(chalk.gray("Pick a candidate and pass it to run --bible, or validate them with validate-bible."));
+  }
+  speak("Story Bible complete", argv.speak);
+}
+
 async function handleDraft(argv: any) {
-  const spinner = ora("Loading Story Bible").start();
+  const spinner = startSpinner("Loading Story Bible");
   const bible = await loadBible(argv.bible);
   spinner.succeed();
 
@@ -149,8 +372,7 @@ async function handleDraft(argv: any) {
   speak("Drafting story", argv.speak);
   spinner.start("Drafting with OpenAI");
 
-  const writerPrompt = await loadPrompt("writer");
-  const prompt = writerPrompt.replace("{{BIBLE_JSON}}", JSON.stringify(bible, null, 2));
+  const prompt = await loadPrompt("writer", argv, bible);
 
   if (argv.dry) {
     spinner.info("Dry run - skipping API call");
@@ -163,11 +385,12 @@ async function handleDraft(argv: any) {
     console.log(chalk.blue("Model:"), model);
   }
 
-  const draft = await callModel({
+  const { text: draft } = await callModel({
     model,
     userPrompt: prompt,
     temperature: 0.7,
-    responseFormat: "text"
+    responseFormat: "text",
+    role: "writer"
   });
   spinner.succeed("Draft complete");
 
@@ -176,93 +399,117 @@ async function handleDraft(argv: any) {
   speak("Draft complete", argv.speak);
 }
 
+/**
+ * Import a human-written seed as the run's draft. When the seed has no beat
+ * tags and `autoTag` is set, a writer call inserts them; the result is only
+ * kept if the prose comes back word-for-word unchanged.
+ */
+async function seedDraft(argv: any, outPath: string): Promise<{ auto_tagged: boolean }> {
+  const spinner = startSpinner(`Importing seed draft ${argv.seed}`);
+  const bible = await loadBible(argv.bible);
+  const seed = await fs.readFile(argv.seed, "utf-8");
+  const hasTags = parseBeats(seed).segments.length > 0;
+
+  if (hasTags || !argv.autoTag) {
+    await fs.writeFile(outPath, seed);
+    spinner.succeed(hasTags ? "Seed imported" : "Seed imported (no beat tags)");
+    return { auto_tagged: false };
+  }
+
+  spinner.text = "Inserting beat tags into seed";
+  const prompt = await loadPrompt("tag_seed", argv, bible, { STORY: seed });
+  const model = argv.writer || process.env.WRITER_MODEL || "openai/gpt-4o-mini";
+
+  const { text: tagged } = await callModel({
+    model,
+    userPrompt: prompt,
+    temperature: 0,
+    responseFormat: "text",
+    role: "seed-tagger"
+  });
+
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+  if (normalize(stripBeatTags(tagged)) !== normalize(seed)) {
+    spinner.warn("Tagging changed the seed's wording; keeping the seed untagged");
+    await fs.writeFile(outPath, seed);
+    return { auto_tagged: false };
+  }
+
+  await fs.writeFile(outPath, tagged.trim() + "\n");
+  spinner.succeed("Seed imported with beat tags");
+  return { auto_tagged: true };
+}
+
 async function handleCritique(argv: any) {
-  const spinner = ora("Loading story").start();
+  const spinner = startSpinner("Loading story");
   const story = await fs.readFile(argv.story, "utf-8");
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const panel = await resolvePanel(argv, bible);
   spinner.succeed();
 
-  const focusGroupPrompt = await loadPrompt("focus_group");
-
-  const fileNames = argv.fileNames || {};
-  const claudeFile = fileNames.claude || "critique_claude.json";
-  const judgeBFile = fileNames.judgeB || "critique_deepseek.json";
-
-  // Claude critique
-  speak("Running Claude focus group", argv.speak);
-  spinner.start("Claude critique");
+  const focusGroupPrompt = await loadPrompt("focus_group", argv, bible);
+  const fileName: (id: string) => string = argv.fileName || ((id: string) => `critique_${id}.json`);
 
   if (argv.dry) {
     spinner.info("Dry run - skipping API calls");
     return;
   }
 
-  const judgeAModel = argv.judgeA || process.env.JUDGE_A_MODEL || "anthropic/claude-sonnet-4-5";
-  if (argv.verbose) {
-    console.log(chalk.blue("Judge A model:"), judgeAModel);
-  }
+  speak("Running focus group", argv.speak);
+  const critiquePaths = await runJudges(panel.judges, spinner, "critique", async (judge, reporter) => {
+    if (argv.verbose) {
+      reporter.log!(chalk.blue(`Judge ${judge.id} model:`), judge.model);
+    }
 
-  let claudeRaw = await callModel({
-    model: judgeAModel,
-    systemPrompt: focusGroupPrompt,
-    userPrompt: story,
-    temperature: 0,
-    responseFormat: "json"
+    const critiquePath = path.join(argv.out, fileName(judge.id));
+    const critique = await callJson(
+      {
+        model: judge.model,
+        systemPrompt: judgeSystemPrompt(focusGroupPrompt, judge),
+        userPrompt: story,
+        temperature: 0,
+        schema: Critique,
+        schemaName: "critique",
+        outPath: critiquePath,
+        role: `critique.${judge.id}`
+      },
+      reporter,
+      `Judge ${judge.id} critique`
+    );
+    await fs.writeFile(critiquePath, JSON.stringify(critique, null, 2));
+    return critiquePath;
   });
-  const claudePath = path.join(argv.out, claudeFile);
 
-  try {
-    const claudeCritique = await parseJson(claudeRaw, Critique, claudePath, false);
-    await fs.writeFile(claudePath, JSON.stringify(claudeCritique, null, 2));
-    spinner.succeed("Judge A critique complete");
-  } catch (err) {
-    spinner.warn("Judge A returned invalid JSON, retrying...");
-    claudeRaw = await callModel({
-      model: judgeAModel,
-      systemPrompt: focusGroupPrompt,
-      userPrompt: story + "\n\nPlease return valid JSON matching the schema.",
-      temperature: 0,
-      responseFormat: "json"
-    });
-    const claudeCritique = await parseJson(claudeRaw, Critique, claudePath, false);
-    await fs.writeFile(claudePath, JSON.stringify(claudeCritique, null, 2));
-    spinner.succeed("Judge A critique complete (retry)");
+  // Check every quote against the story
+  const { grounding } = await loadGatePolicy(resolvePolicyPath(argv.policy, argv.bible, bible));
+  const summaries: Array<[string, GroundingSummary]> = [];
+  for (const critiquePath of critiquePaths) {
+    const { critique, summary } = groundCritique(
+      JSON.parse(await fs.readFile(critiquePath, "utf-8")),
+      story,
+      grounding
+    );
+    summaries.push([judgeIdFromFile(critiquePath), summary]);
+    await fs.writeFile(critiquePath, JSON.stringify({ ...critique, grounding: summary }, null, 2));
   }
 
-  // Judge B critique
-  speak("Running Judge B focus group", argv.speak);
-  spinner.start("Judge B critique");
-
-  const judgeBModel = argv.judgeB || process.env.JUDGE_B_MODEL || "openrouter/deepseek/deepseek-chat";
-  const deepseekPath = path.join(argv.out, judgeBFile);
-
-  if (argv.verbose) {
-    console.log(chalk.blue("Judge B model:"), judgeBModel);
+  const rates = summaries.map(([id, s]) => `${id} ${s.grounded}/${s.total}`).join(", ");
+  const ungrounded = summaries.reduce((sum, [, s]) => sum + s.total - s.grounded, 0);
+  if (ungrounded) {
+    const action = grounding.mode === "drop" ? "dropped" : "flagged";
+    console.log(chalk.yellow(`⚠ Quote grounding: ${rates}; ${ungrounded} ungrounded item(s) ${action}`));
+  } else {
+    console.log(chalk.blue(`Quote grounding: ${rates}`));
   }
 
-  let deepseekRaw = await callModel({
-    model: judgeBModel,
-    systemPrompt: focusGroupPrompt,
-    userPrompt: story,
-    temperature: 0,
-    responseFormat: "json"
-  });
-
-  try {
-    const deepseekCritique = await parseJson(deepseekRaw, Critique, deepseekPath, false);
-    await fs.writeFile(deepseekPath, JSON.stringify(deepseekCritique, null, 2));
-    spinner.succeed("Judge B critique complete");
-  } catch (err) {
-    spinner.warn("Judge B returned invalid JSON, retrying...");
-    deepseekRaw = await callModel({
-      model: judgeBModel,
-      systemPrompt: focusGroupPrompt,
-      userPrompt: story + "\n\nPlease return valid JSON matching the schema.",
-      temperature: 0,
-      responseFormat: "json"
-    });
-    const deepseekCritique = await parseJson(deepseekRaw, Critique, deepseekPath, false);
-    await fs.writeFile(deepseekPath, JSON.stringify(deepseekCritique, null, 2));
-    spinner.succeed("Judge B critique complete (retry)");
+  // Local deep-POV findings are saved once, beside the critiques, so the
+  // aggregator sees them even if every judge missed them
+  const findings = analyzePov(story, resolveLexicon(bible));
+  const povPath = path.join(argv.out, argv.povFile || "pov.json");
+  await fs.writeFile(povPath, JSON.stringify({ findings, confusions: povConfusions(findings) }, null, 2));
+  if (findings.length) {
+    const hard = findings.filter((f) => f.severity === "hard").length;
+    console.log(chalk.yellow(`⚠ POV: ${hard} hard, ${findings.length - hard} soft finding(s) saved to ${povPath}`));
   }
 
   console.log(chalk.green("✓ Critiques saved"));
@@ -270,28 +517,61 @@ async function handleCritique(argv: any) {
 }
 
 async function handleAggregate(argv: any) {
-  const spinner = ora("Loading critiques").start();
+  const spinner = startSpinner("Loading critiques");
   const story = await fs.readFile(argv.story, "utf-8");
-  const critiqueA = JSON.parse(await fs.readFile(argv.a, "utf-8"));
-  const critiqueB = JSON.parse(await fs.readFile(argv.b, "utf-8"));
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const panel = await resolvePanel(argv, bible);
+  const critiques = await Promise.all(
+    (argv.critiques as string[]).map(async (file) => ({
+      id: judgeIdFromFile(file),
+      critique: JSON.parse(await fs.readFile(file, "utf-8"))
+    }))
+  );
+  // POV findings from --pov, else the pov.json critique saved beside the critiques
+  const defaultPov = path.join(path.dirname(argv.critiques[0]), "pov.json");
+  const povPath = argv.pov ?? ((await fs.pathExists(defaultPov)) ? defaultPov : null);
+  const pov: Array<{ quote: string; why: string }> = povPath
+    ? JSON.parse(await fs.readFile(povPath, "utf-8")).confusions
+    : [];
   spinner.succeed();
 
   speak("Aggregating feedback", argv.speak);
   spinner.start("Aggregating with OpenAI");
 
-  const aggregatorPrompt = await loadPrompt("aggregator");
+  const required = quorum(panel);
+  const critiqueSections = critiques.map(({ id, critique }) => {
+    const judge = panel.judges.find((j) => j.id === id);
+    const label = judge ? `${judge.model}, weight ${judge.weight}` : "unknown judge";
+    return `Critique ${id} (${label}):\n${JSON.stringify(critique, null, 2)}`;
+  });
+
+  const hasUngrounded = critiques.some(({ critique }) =>
+    [...(critique.confusions ?? []), ...(critique.strengths ?? [])].some(
+      (item: { grounding?: { match: string } }) => item.grounding?.match === "none"
+    )
+  );
+  const aggregatorPrompt = await loadPrompt("aggregator", argv, bible);
   const prompt = `${aggregatorPrompt}
 
 Story:
 ${story}
 
-Critique A (Claude):
-${JSON.stringify(critiqueA, null, 2)}
+Panel: ${critiques.length} judge(s): ${critiques.map((c) => c.id).join(", ")}.
+Quorum: a must_fix issue must be raised by at least ${required} judge(s).
+Prefix every evidence quote with the id of the judge who raised it (e.g. "${critiques[0]?.id ?? "a"}:quote").${
+    hasUngrounded
+      ? '\nItems whose "grounding" has "match": "none" quote text that is not in the story; do not use them as evidence.'
+      : ""
+  }
 
-Critique B (Gemini):
-${JSON.stringify(critiqueB, null, 2)}
+${critiqueSections.join("\n\n")}${
+    pov.length
+      ? '\n\nLocal deep-POV check (deterministic, not a judge; cite it as "pov:quote"; its hard filter-word findings are must_fix without a quorum):\n' +
+        pov.map((c) => `- "${c.quote}": ${c.why}`).join("\n")
+      : ""
+  }
 
-Generate aggregation plan with only overlapping issues.`;
+Generate aggregation plan with only issues that meet the quorum.`;
 
   if (argv.dry) {
     spinner.info("Dry run - skipping API call");
@@ -307,59 +587,82 @@ Generate aggregation plan with only overlapping issues.`;
   const modelName = model.split("/").slice(1).join("/");
   const temperature = modelName.startsWith("gpt-5") ? 1 : 0;
 
-  let planRaw = await callModel({
-    model,
-    userPrompt: prompt,
-    temperature,
-    responseFormat: "json"
-  });
-
-  try {
-    const plan = await parseJson(planRaw, Plan, argv.out, false);
-    await fs.writeFile(argv.out, JSON.stringify(plan, null, 2));
-    spinner.succeed("Plan generated");
-  } catch (err) {
-    spinner.warn("Invalid JSON, retrying...");
-    planRaw = await callModel({
+  const plan = await callJson<z.infer<typeof Plan>>(
+    {
       model,
-      userPrompt: prompt + "\n\nPlease return valid JSON matching the schema.",
+      userPrompt: prompt,
       temperature,
-      responseFormat: "json"
-    });
-    const plan = await parseJson(planRaw, Plan, argv.out, false);
-    await fs.writeFile(argv.out, JSON.stringify(plan, null, 2));
-    spinner.succeed("Plan generated (retry)");
+      schema: Plan,
+      schemaName: "plan",
+      outPath: argv.out,
+      repairHint: "Keep revision_plan to at most 3 items.",
+      role: "aggregator"
+    },
+    spinner,
+    "Plan"
+  );
+
+  // Enforce the quorum locally; the aggregator's evidence prefixes say who raised what.
+  // Items backed by the local POV check need no quorum.
+  const kept = plan.must_fix.filter(
+    (item) => citedJudges(item.evidence, panel).size >= required || citesPov(item.evidence)
+  );
+  const dropped = plan.must_fix.filter((item) => !kept.includes(item));
+  if (dropped.length) {
+    console.log(chalk.yellow(`⚠ ${dropped.length} must-fix item(s) below quorum moved to optional`));
+    plan.must_fix = kept;
+    plan.optional.push(...dropped.map((item) => `${item.issue} (below quorum)`));
   }
 
+  await fs.writeFile(argv.out, JSON.stringify(plan, null, 2));
   console.log(chalk.green(`✓ Plan saved to ${argv.out}`));
   speak("Aggregation complete", argv.speak);
 }
 
-async function handleRevise(argv: any) {
-  const spinner = ora("Loading files").start();
+/** What a revise call did, recorded as the run's revise stage result */
+interface RevisionSummary {
+  mode: "surgical" | "full";
+  /** Why a surgical revision fell back to a whole-story rewrite */
+  reason: string | null;
+  edits: number;
+  rejected: number;
+  unplaced: number;
+}
+
+async function handleRevise(argv: any): Promise<RevisionSummary | undefined> {
+  const spinner = startSpinner("Loading files");
   const bible = await loadBible(argv.bible);
   const story = await fs.readFile(argv.story, "utf-8");
-  const plan = JSON.parse(await fs.readFile(argv.plan, "utf-8"));
+  const plan = Plan.parse(JSON.parse(await fs.readFile(argv.plan, "utf-8")));
+  const policy = await loadGatePolicy(resolvePolicyPath(argv.policy, argv.bible, bible));
   spinner.succeed();
 
+  const surgical =
+    (argv.mode ?? policy.revision.mode) === "surgical"
+      ? planSurgicalEdits(story, plan, policy.grounding.min_similarity)
+      : null;
+  if (surgical?.mode === "surgical") {
+    return reviseSpans(argv, bible, story, surgical, spinner);
+  }
+  if (surgical) {
+    console.log(chalk.yellow(`Rewriting the whole story: ${surgical.reason}`));
+  }
+
   speak("Revising story", argv.speak);
   spinner.start("Revising with OpenAI");
 
-  const prompt = `You are revising a micro-fiction story based on a must-fix plan.
-
-Story Bible:
-${JSON.stringify(bible, null, 2)}
-
-Current Story:
-${story}
-
-Must-fix items:
-${JSON.stringify(plan.must_fix, null, 2)}
-
-Revision plan:
-${JSON.stringify(plan.revision_plan, null, 2)}
-
-Apply ONLY the must-fix items. Keep ≤180 words and maintain beat tags. Return the revised story with no explanations.`;
+  const critiques = await Promise.all(
+    ((argv.critiques as string[] | undefined) ?? []).map(async (file) => ({
+      id: judgeIdFromFile(file),
+      critique: JSON.parse(await fs.readFile(file, "utf-8"))
+    }))
+  );
+  const prompt = await loadPrompt("revise", argv, bible, {
+    STORY: story,
+    MUST_FIX_JSON: JSON.stringify(plan.must_fix, null, 2),
+    REVISION_PLAN_JSON: JSON.stringify(plan.revision_plan, null, 2),
+    PRIOR_CRITIQUE: formatPriorCritique(critiques)
+  });
 
   if (argv.dry) {
     spinner.info("Dry run - skipping API call");
@@ -371,29 +674,135 @@ Apply ONLY the must-fix items. Keep ≤180 words and maintain beat tags. Return
     console.log(chalk.blue("Model:"), model);
   }
 
-  const revised = await callModel({
+  const { text: revised } = await callModel({
     model,
     userPrompt: prompt,
     temperature: 0.7,
-    responseFormat: "text"
+    responseFormat: "text",
+    role: "reviser"
   });
   spinner.succeed("Revision complete");
 
   await fs.writeFile(argv.out, revised);
   console.log(chalk.green(`✓ Revised story saved to ${argv.out}`));
   speak("Revision complete", argv.speak);
+  return { mode: "full", reason: surgical?.reason ?? null, edits: 0, rejected: 0, unplaced: 0 };
+}
+
+/** Rewrite each targeted span on its own and splice the results into the story */
+async function reviseSpans(
+  argv: any,
+  bible: StoryBible,
+  story: string,
+  surgical: SurgicalPlan,
+  spinner: Ora
+): Promise<RevisionSummary | undefined> {
+  const systemPrompt = await loadPrompt("revise_span", argv, bible);
+  for (const item of surgical.unplaced) {
+    console.log(chalk.yellow(`⚠ ${item.id}: target not found in the story, left as is (${item.text})`));
+  }
+
+  if (argv.dry) {
+    for (const edit of surgical.edits) {
+      console.log(chalk.gray(`  ${edit.items.join(", ")}: "${edit.original}"`));
+    }
+    spinner.info("Dry run - skipping API calls");
+    return;
+  }
+
+  const model = argv.writer || process.env.WRITER_MODEL || "openai/gpt-4o-mini";
+  if (argv.verbose) {
+    console.log(chalk.blue("Model:"), model);
+  }
+
+  speak("Revising story", argv.speak);
+  spinner.start(`Revising ${surgical.edits.length} span(s)`);
+  const applied: AppliedEdit[] = await Promise.all(
+    surgical.edits.map(async (edit) => {
+      const { text } = await callModel({
+        model,
+        systemPrompt,
+        userPrompt: spanRequest(story, edit),
+        temperature: 0.7,
+        responseFormat: "text",
+        role: "reviser.span"
+      });
+      return { ...edit, ...cleanReplacement(text) };
+    })
+  );
+  spinner.succeed("Revision complete");
+
+  for (const edit of applied) {
+    const label = `  ${edit.beat ?? "-"} ${edit.items.join(", ")}:`;
+    if (edit.rejected) {
+      console.log(chalk.yellow(label), `kept original (${edit.rejected})`);
+    } else {
+      console.log(chalk.gray(label), `"${edit.original}" → "${edit.replacement}"`);
+    }
+  }
+
+  await fs.writeFile(argv.out, spliceEdits(story, applied));
+  console.log(chalk.green(`✓ Revised story saved to ${argv.out}`));
+  speak("Revision complete", argv.speak);
+  return {
+    mode: "surgical",
+    reason: null,
+    edits: applied.length,
+    rejected: applied.filter((edit) => edit.rejected).length,
+    unplaced: surgical.unplaced.length
+  };
+}
+
+async function handleVerify(argv: any): Promise<RevisionCheck> {
+  const spinner = startSpinner("Comparing revision with the plan");
+  const before = await fs.readFile(argv.before, "utf-8");
+  const after = await fs.readFile(argv.after, "utf-8");
+  const plan = Plan.parse(JSON.parse(await fs.readFile(argv.plan, "utf-8")));
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const policy = await loadGatePolicy(resolvePolicyPath(argv.policy, argv.bible, bible));
+
+  let check = checkRevision(before, after, plan, policy.grounding.min_similarity);
+  spinner.succeed();
+
+  if (argv.llm ?? policy.revision_check.llm) {
+    const model =
+      policy.revision_check.model || argv.aggregator || process.env.AGGREGATOR_MODEL || "openai/gpt-5";
+    if (argv.verbose) {
+      console.log(chalk.blue("Checker model:"), model);
+    }
+    spinner.start("Checking success metrics");
+    check = await llmCheckRevision(before, after, check, model, await loadPrompt("verify_revision", argv, bible));
+    spinner.succeed("Success metrics checked");
+  }
+
+  if (argv.out) {
+    await fs.writeFile(argv.out, JSON.stringify(check, null, 2));
+  }
+
+  const color = { addressed: chalk.green, untouched: chalk.red, unclear: chalk.yellow };
+  for (const item of check.items) {
+    console.log(color[item.status](`  ${item.status.padEnd(9)}`), `${item.id}: ${item.text}`, chalk.gray(`(${item.reason})`));
+  }
+  for (const change of check.collateral) {
+    const where = change.beat ? ` in ${change.beat}` : "";
+    console.log(chalk.yellow(`  collateral${where}:`), `"${change.removed}" → "${change.added}"`);
+  }
+  const { addressed, untouched, unclear, changed_words, collateral_words } = check.summary;
+  const line = `Revision check: ${addressed} addressed, ${untouched} untouched, ${unclear} unclear; ` +
+    `${collateral_words} of ${changed_words} changed word(s) outside targeted spans`;
+  console.log(untouched || unclear || collateral_words ? chalk.yellow(`⚠ ${line}`) : chalk.green(`✓ ${line}`));
+  return check;
 }
 
 async function handleRetell(argv: any) {
-  const spinner = ora("Loading story").start();
+  const spinner = startSpinner("Loading story");
   const story = await fs.readFile(argv.story, "utf-8");
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const panel = await resolvePanel(argv, bible);
   spinner.succeed();
 
-  const retellPrompt = await loadPrompt("retell");
-
-  const fileNames = argv.fileNames || {};
-  const claudeFile = fileNames.claude || "retell_claude.json";
-  const judgeBFile = fileNames.judgeB || "retell_deepseek.json";
+  const retellPrompt = await loadPrompt("retell", argv, bible);
+  const fileName: (id: string) => string = argv.fileName || ((id: string) => `retell_${id}.json`);
 
   speak("Running retell test", argv.speak);
 
@@ -402,117 +811,109 @@ async function handleRetell(argv: any) {
     return;
   }
 
-  // Judge A retell
-  spinner.start("Judge A retell");
-  const judgeAModel = process.env.JUDGE_A_MODEL || "anthropic/claude-sonnet-4-5";
-  let claudeRaw = await callModel({
-    model: judgeAModel,
-    systemPrompt: retellPrompt,
-    userPrompt: story,
-    temperature: 0,
-    responseFormat: "json"
-  });
-  const claudePath = path.join(argv.out, claudeFile);
-
-  try {
-    const claudeRetell = await parseJson(claudeRaw, Retell, claudePath, false);
-    await fs.writeFile(claudePath, JSON.stringify(claudeRetell, null, 2));
-    spinner.succeed("Judge A retell complete");
-  } catch (err) {
-    spinner.warn("Judge A returned invalid JSON, retrying...");
-    claudeRaw = await callModel({
-      model: judgeAModel,
-      systemPrompt: retellPrompt,
-      userPrompt: story + "\n\nReturn valid JSON: {\"retell\": \"...\"}",
-      temperature: 0,
-      responseFormat: "json"
-    });
-    const claudeRetell = await parseJson(claudeRaw, Retell, claudePath, false);
-    await fs.writeFile(claudePath, JSON.stringify(claudeRetell, null, 2));
-    spinner.succeed("Judge A retell complete (retry)");
-  }
-
-  // Judge B retell
-  spinner.start("Judge B retell");
-  const judgeBModel = process.env.JUDGE_B_MODEL || "openrouter/deepseek/deepseek-chat";
-  const deepseekPath = path.join(argv.out, judgeBFile);
-  let deepseekRaw = await callModel({
-    model: judgeBModel,
-    systemPrompt: retellPrompt,
-    userPrompt: story,
-    temperature: 0,
-    responseFormat: "json"
+  await runJudges(panel.judges, spinner, "retell", async (judge, reporter) => {
+    const retellPath = path.join(argv.out, fileName(judge.id));
+    const retell = await callJson(
+      {
+        model: judge.model,
+        systemPrompt: judgeSystemPrompt(retellPrompt, judge),
+        userPrompt: story,
+        temperature: 0,
+        schema: Retell,
+        schemaName: "retell",
+        outPath: retellPath,
+        repairHint: "Return valid JSON: {\"retell\": \"...\"}",
+        role: `retell.${judge.id}`
+      },
+      reporter,
+      `Judge ${judge.id} retell`
+    );
+    await fs.writeFile(retellPath, JSON.stringify(retell, null, 2));
   });
 
-  try {
-    const deepseekRetell = await parseJson(deepseekRaw, Retell, deepseekPath, false);
-    await fs.writeFile(deepseekPath, JSON.stringify(deepseekRetell, null, 2));
-    spinner.succeed("Judge B retell complete");
-  } catch (err) {
-    spinner.warn("Judge B returned invalid JSON, retrying...");
-    deepseekRaw = await callModel({
-      model: judgeBModel,
-      systemPrompt: retellPrompt,
-      userPrompt: story + "\n\nReturn valid JSON: {\"retell\": \"...\"}",
-      temperature: 0,
-      responseFormat: "json"
-    });
-    const deepseekRetell = await parseJson(deepseekRaw, Retell, deepseekPath, false);
-    await fs.writeFile(deepseekPath, JSON.stringify(deepseekRetell, null, 2));
-    spinner.succeed("Judge B retell complete (retry)");
-  }
-
   console.log(chalk.green("✓ Retells saved"));
   speak("Retell test complete", argv.speak);
 }
 
 async function handleGate(argv: any) {
-  const spinner = ora("Loading critiques and retells").start();
-  const critiqueA = JSON.parse(await fs.readFile(argv.a, "utf-8"));
-  const critiqueB = JSON.parse(await fs.readFile(argv.b, "utf-8"));
-  const retellA = JSON.parse(await fs.readFile(argv.ra, "utf-8"));
-  const retellB = JSON.parse(await fs.readFile(argv.rb, "utf-8"));
+  const spinner = startSpinner("Loading critiques and retells");
+  const story = argv.story ? await fs.readFile(argv.story, "utf-8") : null;
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const panel = await resolvePanel(argv, bible);
+  const weightOf = (id: string) => panel.judges.find((j) => j.id === id)?.weight ?? 1;
+  const critiques = await Promise.all(
+    (argv.critiques as string[]).map(async (file) => ({
+      ...JSON.parse(await fs.readFile(file, "utf-8")),
+      id: judgeIdFromFile(file),
+      weight: weightOf(judgeIdFromFile(file))
+    }))
+  );
+  const retells = await Promise.all(
+    (argv.retells as string[]).map(async (file) => ({
+      id: judgeIdFromFile(file),
+      retell: JSON.parse(await fs.readFile(file, "utf-8")).retell as string
+    }))
+  );
+  const plan = argv.plan ? Plan.parse(JSON.parse(await fs.readFile(argv.plan, "utf-8"))) : null;
+  const policyPath = resolvePolicyPath(argv.policy, argv.bible, bible);
+  const policy = await loadGatePolicy(policyPath);
   spinner.succeed();
 
-  // Calculate averages
-  const avgRatings = {
-    clarity: (critiqueA.ratings.clarity + critiqueB.ratings.clarity) / 2,
-    stakes: (critiqueA.ratings.stakes + critiqueB.ratings.stakes) / 2,
-    momentum: (critiqueA.ratings.momentum + critiqueB.ratings.momentum) / 2,
-    ending_resonance:
-      (critiqueA.ratings.ending_resonance + critiqueB.ratings.ending_resonance) / 2
-  };
-
-  const totalConfusions = critiqueA.confusions.length + critiqueB.confusions.length;
-
-  // Retell match (exact string compare after trim)
-  const retellMatch =
-    retellA.retell.trim().toLowerCase() === retellB.retell.trim().toLowerCase();
-
-  // Gate thresholds (temporarily relaxed for testing)
-  const minScores = { clarity: 1.0, stakes: 1.0, momentum: 1.5, ending_resonance: 1.0 };
-  const maxConfusions = 15;
-
-  const scoresPass =
-    avgRatings.clarity >= minScores.clarity &&
-    avgRatings.stakes >= minScores.stakes &&
-    avgRatings.momentum >= minScores.momentum &&
-    avgRatings.ending_resonance >= minScores.ending_resonance;
-
-  const confusionsPass = totalConfusions <= maxConfusions;
+  // Retell agreement via the policy's comparison strategies, across every pair of judges
+  const retellPolicy = activeRetellPolicy(policy);
+  const adjudicated = retellPolicy.strategies.includes("llm");
+  spinner.start(adjudicated ? "Adjudicating retells" : "Comparing retells");
+  const retell = await comparePanelRetells(retells, retellPolicy, {
+    adjudicatorModel: argv.aggregator || process.env.AGGREGATOR_MODEL || "openai/gpt-5",
+    adjudicatorPrompt: await loadPrompt("retell_compare", argv, bible)
+  });
+  spinner.succeed(adjudicated ? "Retells adjudicated" : "Retells compared");
+
+  const result = evaluateGate(
+    {
+      critiques,
+      retell,
+      lint: story !== null && bible ? lintStory(story, bible) : null,
+      // Hard deep-POV violations fail the gate regardless of what the judges said
+      pov: story === null ? null : analyzePov(story, resolveLexicon(bible)),
+      planGate: plan?.gate ?? null
+    },
+    policy
+  );
 
-  const publish = scoresPass && confusionsPass; // Removed retell match requirement for testing
+  if (argv.out) {
+    await fs.writeFile(
+      argv.out,
+      JSON.stringify({ ...result, policy: policyPath || "default", timestamp: new Date().toISOString() }, null, 2)
+    );
+  }
 
   console.log(chalk.bold("\n📊 Publish Gate Results:"));
-  console.log(chalk.blue("Average Ratings:"), avgRatings);
-  console.log(chalk.blue("Total Confusions:"), totalConfusions);
-  console.log(chalk.blue("Retell Match:"), retellMatch ? "✓" : "✗");
+  console.log(chalk.blue("Policy:"), policyPath || "default", chalk.gray(`(thresholds from ${result.threshold_source})`));
+  if (bible) {
+    console.log(chalk.blue("Form:"), resolveForm(bible).label);
+  }
+  console.log(chalk.blue("Weighted Average Ratings:"), result.averages);
+  const povNote = result.pov_confusions ? chalk.gray(` (${result.pov_confusions} from the POV check)`) : "";
+  console.log(chalk.blue("Total Confusions:"), `${result.total_confusions}${povNote}`);
+  for (const pair of retell.pairs) {
+    for (const strategy of pair.strategies) {
+      console.log(
+        chalk.blue(`Retell ${pair.a}~${pair.b} (${strategy.strategy}):`),
+        strategy.score,
+        chalk.gray(strategy.rationale)
+      );
+    }
+  }
   console.log();
-  console.log(chalk.blue("Scores Pass:"), scoresPass ? "✓" : "✗");
-  console.log(chalk.blue("Confusions Pass:"), confusionsPass ? "✓" : "✗");
+  for (const rule of result.rules) {
+    const mark = rule.skipped ? chalk.gray("–") : rule.pass ? chalk.green("✓") : chalk.red("✗");
+    const note = rule.skipped ? chalk.gray(" (skipped: no input)") : "";
+    console.log(`${mark} ${formatRule(rule)}${note}`);
+  }
   console.log();
 
-  if (publish) {
+  if (result.publish) {
     console.log(chalk.green.bold("✓ PUBLISH: YES"));
     speak("Publish approved", argv.speak);
   } else {
@@ -522,200 +923,913 @@ async function handleGate(argv: any) {
 
   // Return publish decision for handleRun, but exit if called standalone
   if (!argv.fromRun) {
-    process.exit(publish ? 0 : 1);
+    process.exit(result.publish ? 0 : 1);
   }
 
-  if (!publish) {
-    throw new Error("Gate failed");
+  if (!result.publish) {
+    const failed = result.rules.filter((rule) => !rule.pass).map(formatRule);
+    throw new GateFailedError(`Gate failed: ${failed.join("; ")}`);
   }
 }
 
+async function handleLint(argv: any): Promise<LintReport> {
+  const bible = await loadBible(argv.bible);
+  const story = await fs.readFile(argv.story, "utf-8");
+  const report = lintStory(story, bible);
+
+  if (argv.out) {
+    await fs.writeFile(argv.out, JSON.stringify(report, null, 2));
+  }
+
+  if (argv.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(chalk.bold(`\n📏 Lint: ${argv.story}`), chalk.gray(`(${resolveForm(bible).label})`));
+    for (const beat of report.beats) {
+      const budget = beat.budget === null ? "?" : beat.budget;
+      console.log(chalk.blue(`  [${beat.beat}]`), `${beat.words}/${budget} words`);
+    }
+    console.log(chalk.blue("  Total:"), `${report.total_words}/${report.word_cap} words`);
+    for (const issue of report.issues) {
+      const color = issue.severity === "error" ? chalk.red : chalk.yellow;
+      console.log(color(`  ${issue.severity}: ${issue.message}`));
+    }
+    console.log(report.ok ? chalk.green("✓ Lint passed") : chalk.red("✗ Lint failed"));
+  }
+
+  // Return report for handleRun, but exit if called standalone
+  if (!argv.fromRun) {
+    process.exit(report.ok ? 0 : 1);
+  }
+  return report;
+}
+
+const RUN_OPTION_KEYS = [
+  "bible",
+  "out",
+  "seed",
+  "policy",
+  "panel",
+  "writer",
+  "aggregator",
+  "judgeA",
+  "judgeB",
+  "titleModel",
+  "autoTag",
+  "resilience",
+  "maxCost",
+  "maxCalls"
+] as const;
+
+/**
+ * Run a checkpointed stage: skip it when the manifest says its outputs exist
+ * and its inputs are unchanged, otherwise execute it and record it. Recording
+ * a stage invalidates every stage after it.
+ */
+async function runStage<T>(
+  manifest: RunManifest,
+  id: string,
+  inputs: string[],
+  outputs: string[],
+  fn: () => Promise<T>
+): Promise<T> {
+  if (await manifest.isFresh(id)) {
+    console.log(chalk.gray(`↷ ${id}: checkpoint up to date, skipping`));
+    return manifest.get(id)!.result as T;
+  }
+  setUsageStage(id);
+  try {
+    const result = await fn();
+    await manifest.record(id, inputs, outputs, result);
+    return result;
+  } finally {
+    setUsageStage(null);
+  }
+}
+
+/** Rename the run directory to `<index>_<suffix>`, avoiding collisions (under the out-dir lock) */
+async function renameRunDir(manifest: RunManifest, suffixName: string): Promise<string> {
+  const baseOut = path.dirname(manifest.dir);
+  return withDirLock(baseOut, async () => {
+    const desiredBaseName = `${manifest.data.run_index}_${suffixName}`;
+    let targetDir = path.join(baseOut, desiredBaseName);
+    let suffix = 1;
+    while (
+      (await fs.pathExists(targetDir)) &&
+      path.resolve(targetDir) !== path.resolve(manifest.dir)
+    ) {
+      suffix++;
+      targetDir = path.join(baseOut, `${desiredBaseName}-${suffix}`);
+    }
+
+    if (path.resolve(targetDir) !== path.resolve(manifest.dir)) {
+      await fs.rename(manifest.dir, targetDir);
+      manifest.dir = targetDir;
+      setAttemptLog(path.join(targetDir, RUN_FILE_NAMES.attempts));
+      setUsageLog(path.join(targetDir, RUN_FILE_NAMES.usage));
+      if (runContext().logFile) runContext().logFile = path.join(targetDir, RUN_FILE_NAMES.log);
+    }
+    return manifest.dir;
+  });
+}
+
+/** How the draft was produced, for 10-metadata.json */
+function draftProvenance(manifest: RunManifest) {
+  const draft = manifest.get("draft")?.result as { seeded?: boolean; seed?: string; auto_tagged?: boolean } | undefined;
+  return draft?.seeded
+    ? { draft_source: "human-seeded", seed: draft.seed, seed_auto_tagged: Boolean(draft.auto_tagged) }
+    : { draft_source: "model" };
+}
+
+/** What `executeRun` reports back; batch mode collects one per run */
+interface RunOutcome {
+  run_index: string;
+  run_dir: string;
+  status: "published" | "failed";
+  title: string | null;
+  reason: string | null;
+  /** Revision cycles started (0 when the draft never passed lint) */
+  cycles: number;
+  cost_usd: number;
+  unpriced_calls: number;
+}
+
+/** Validate inputs, allocate a run directory and write its manifest */
+async function createRun(argv: any): Promise<RunManifest> {
+  // Validate the bible, gate policy and panel before allocating a run directory or paying for calls
+  const bible = await loadBible(argv.bible);
+  await loadGatePolicy(resolvePolicyPath(argv.policy, argv.bible, bible));
+  await resolvePanel(argv, bible);
+
+  const baseOut = path.resolve(argv.out);
+  const { index: runIndex, dir: runDir } = await determineNextRunDir(baseOut);
+
+  // Persist the options needed to resume, with paths made absolute
+  const options: Record<string, unknown> = {};
+  for (const key of RUN_OPTION_KEYS) {
+    if (argv[key] !== undefined) options[key] = argv[key];
+  }
+  for (const key of ["bible", "out", "seed", "policy", "panel", "resilience"] as const) {
+    if (typeof options[key] === "string") options[key] = path.resolve(options[key] as string);
+  }
+
+  return RunManifest.create(runDir, runIndex, options);
+}
+
 async function handleRun(argv: any) {
   speak("Starting end-to-end run", argv.speak);
+  const manifest = await createRun(argv);
+  const outcome = await withRunContext({}, () => executeRun(manifest, argv));
+  if (outcome.status === "failed") process.exit(1);
+}
 
-  const baseOut = path.resolve(argv.out);
-  const { index: runIndex, dir: initialRunDir } = await determineNextRunDir(baseOut);
-  let runDir = initialRunDir;
+async function handleResume(argv: any) {
+  const manifest = await RunManifest.load(path.resolve(argv.runDir));
 
-  const draftPath = path.join(runDir, RUN_FILE_NAMES.draft);
-  const planPath = path.join(runDir, RUN_FILE_NAMES.plan);
+  if (argv.rerunFrom) {
+    const stageId = manifest.findStage(argv.rerunFrom);
+    if (!stageId) {
+      const known = manifest.data.stages.map((stage) => stage.id).join(", ") || "none";
+      throw new Error(`No completed stage matches "${argv.rerunFrom}" (completed: ${known})`);
+    }
+    manifest.invalidateFrom(stageId);
+    await manifest.save();
+    console.log(chalk.yellow(`↺ Re-running from ${stageId}`));
+  }
 
-  // Draft
-  await handleDraft({
-    ...argv,
-    out: draftPath
-  });
+  // Keep the run's retry/fallback policy unless one is given on the command line
+  const resiliencePath = manifest.data.options.resilience;
+  if (!argv.resilience && typeof resiliencePath === "string") {
+    configureResilience(await loadResiliencePolicy(resiliencePath));
+  }
+
+  console.log(chalk.blue(`Resuming run ${manifest.data.run_index} in ${manifest.dir}`));
+  const outcome = await withRunContext({}, () =>
+    executeRun(manifest, {
+      ...manifest.data.options,
+      verbose: argv.verbose,
+      speak: argv.speak
+    })
+  );
+  if (outcome.status === "failed") process.exit(1);
+}
+
+/**
+ * Execute (or continue) a run inside the caller's run context. Returns the
+ * outcome instead of exiting so several runs can share a process; throws
+ * when the run is interrupted, leaving it resumable.
+ */
+async function executeRun(manifest: RunManifest, argv: any): Promise<RunOutcome> {
+  const bible = await loadBible(argv.bible);
+  const panel = await resolvePanel(argv, bible);
+  const file = (name: string) => path.join(manifest.dir, name);
+  const critiquePaths = (cycle: number) => panel.judges.map((j) => file(RUN_FILE_NAMES.critique(cycle, j.id)));
+  const retellPaths = (cycle: number) => panel.judges.map((j) => file(RUN_FILE_NAMES.retell(cycle, j.id)));
+
+  const policy = await loadGatePolicy(resolvePolicyPath(argv.policy, argv.bible, bible));
+  const budget = resolveBudget(argv, policy);
+  const writerModel = argv.writer || process.env.WRITER_MODEL || "openai/gpt-4o-mini";
+  const aggregatorModel = argv.aggregator || process.env.AGGREGATOR_MODEL || "openai/gpt-5";
+  const judgePairs = (panel.judges.length * (panel.judges.length - 1)) / 2;
+  const surgical = policy.revision.mode === "surgical";
+  const cycleCalls: PlannedCall[] = [
+    ...panel.judges.flatMap((judge) => [
+      { role: `critique.${judge.id}`, model: judge.model },
+      { role: `retell.${judge.id}`, model: judge.model }
+    ]),
+    { role: "aggregator", model: aggregatorModel },
+    // Surgical revision makes one call per targeted span; a plan has at most 3 revision steps
+    ...Array.from({ length: surgical ? 3 : 1 }, () => ({ role: surgical ? "reviser.span" : "reviser", model: writerModel })),
+    ...(policy.revision_check.llm
+      ? [{ role: "revision-check", model: policy.revision_check.model || aggregatorModel }]
+      : []),
+    ...(activeRetellPolicy(policy).strategies.includes("llm")
+      ? Array.from({ length: judgePairs }, () => ({ role: "retell-compare", model: aggregatorModel }))
+      : []),
+    // A cycle that passes the gate also titles the story
+    { role: "title", model: argv.titleModel || process.env.TITLE_MODEL || aggregatorModel }
+  ];
 
-  let currentStory = draftPath;
-  let cycle = 0;
   const maxCycles = 2;
-  let publishSuccess = false;
   let failureReason: string | null = null;
-  let finalPublishedPath = "";
-  let finalTitle = "";
-
-  while (cycle < maxCycles) {
-    cycle++;
-    console.log(chalk.bold(`\n🔄 Cycle ${cycle}/${maxCycles}`));
-
-    // Critique
-    await handleCritique({
-      ...argv,
-      out: runDir,
-      story: currentStory,
-      fileNames: {
-        claude: RUN_FILE_NAMES.critiqueClaude,
-        judgeB: RUN_FILE_NAMES.critiqueDeepseek
-      }
-    });
+  let budgetCheck: BudgetCheck | null = null;
+  let publishedFrom: string | null = null;
+  let cyclesUsed = 0;
+  setAttemptLog(file(RUN_FILE_NAMES.attempts));
+  setUsageLog(file(RUN_FILE_NAMES.usage));
 
-    // Aggregate
-    await handleAggregate({
-      ...argv,
-      story: currentStory,
-      a: path.join(runDir, RUN_FILE_NAMES.critiqueClaude),
-      b: path.join(runDir, RUN_FILE_NAMES.critiqueDeepseek),
-      out: planPath
+  try {
+    const draftPath = file(RUN_FILE_NAMES.draft);
+
+    // Draft, or import the human-written seed
+    const draftInputs = argv.seed ? [argv.bible, argv.seed] : [argv.bible];
+    await runStage(manifest, "draft", draftInputs, [draftPath], async () => {
+      if (argv.seed) {
+        const { auto_tagged } = await seedDraft(argv, draftPath);
+        return { seeded: true, seed: argv.seed, auto_tagged };
+      }
+      await handleDraft({
+        ...argv,
+        out: draftPath
+      });
+      return { seeded: false };
     });
 
-    // Revise
-    const cycleRevisedPath = path.join(runDir, RUN_FILE_NAMES.revised(cycle));
-    await handleRevise({
-      ...argv,
-      story: currentStory,
-      plan: planPath,
-      out: cycleRevisedPath
+    // Lint the draft locally before paying for critiques; redraft once on failure (never over a seed)
+    const draftLintPath = file(RUN_FILE_NAMES.lint(RUN_FILE_NAMES.draft));
+    const draftLint = await runStage(manifest, "draft-lint", [draftPath, argv.bible], [draftLintPath], async () => {
+      const lintArgs = { ...argv, fromRun: true, story: draftPath, out: draftLintPath };
+      let report = await handleLint(lintArgs);
+      if (!report.ok && !argv.seed) {
+        console.log(chalk.yellow("\n⚠ Draft failed lint. Redrafting once..."));
+        await handleDraft({
+          ...argv,
+          out: draftPath
+        });
+        report = await handleLint(lintArgs);
+      }
+      return { ok: report.ok };
     });
+    if (!draftLint.ok) {
+      failureReason = argv.seed ? "Seed draft failed lint" : "Draft failed lint";
+    }
 
-    // Retell
-    await handleRetell({
-      ...argv,
-      out: runDir,
-      story: cycleRevisedPath,
-      fileNames: {
-        claude: RUN_FILE_NAMES.retellClaude,
-        judgeB: RUN_FILE_NAMES.retellDeepseek
+    for (let cycle = 1; draftLint.ok && cycle <= maxCycles; cycle++) {
+      const stage = (name: string) => `c${cycle}.${name}`;
+      const currentStory = cycle === 1 ? draftPath : file(RUN_FILE_NAMES.revised(cycle - 1));
+      const cycleRevisedPath = file(RUN_FILE_NAMES.revised(cycle));
+      const povPath = file(RUN_FILE_NAMES.pov(cycle));
+      const planPath = file(RUN_FILE_NAMES.plan(cycle));
+      const critiques = critiquePaths(cycle);
+      const retells = retellPaths(cycle);
+      console.log(chalk.bold(`\n🔄 Cycle ${cycle}/${maxCycles}`));
+
+      // Refuse to start a cycle the remaining budget cannot cover
+      if (!(await manifest.isFresh(stage("gate")))) {
+        const entries = await readUsageLog(file(RUN_FILE_NAMES.usage));
+        budgetCheck = checkBudget(budget, entries, projectCycle(entries, cycle, cycleCalls));
+        if (!budgetCheck.ok) {
+          failureReason = "budget exceeded";
+          console.log(chalk.red(`\n✗ Budget exceeded: ${budgetCheck.reason}`));
+          speak("Budget exceeded", argv.speak);
+          break;
+        }
+        if (budgetCheck.unpriced_calls && budget.max_cost_usd !== undefined) {
+          console.log(chalk.yellow(`⚠ ${budgetCheck.unpriced_calls} call(s) have no price; spend so far is a lower bound`));
+        }
       }
-    });
 
-    // Gate
-    try {
-      await handleGate({
-        ...argv,
-        fromRun: true,
-        a: path.join(runDir, RUN_FILE_NAMES.critiqueClaude),
-        b: path.join(runDir, RUN_FILE_NAMES.critiqueDeepseek),
-        ra: path.join(runDir, RUN_FILE_NAMES.retellClaude),
-        rb: path.join(runDir, RUN_FILE_NAMES.retellDeepseek)
-      });
+      cyclesUsed = cycle;
+
+      // Critique
+      await runStage(manifest, stage("critique"), [currentStory, argv.bible], [...critiques, povPath], () =>
+        handleCritique({
+          ...argv,
+          out: manifest.dir,
+          story: currentStory,
+          fileName: (id: string) => RUN_FILE_NAMES.critique(cycle, id),
+          povFile: RUN_FILE_NAMES.pov(cycle)
+        })
+      );
 
-      const storyContent = await fs.readFile(cycleRevisedPath, "utf-8");
-      const cleanedStory = storyContent
-        .replace(/\[SETUP\]\s*/g, "")
-        .replace(/\[TURN\]\s*/g, "")
-        .replace(/\[AFTERSHOCK\]\s*/g, "")
-        .replace(/\[BUTTON\]\s*/g, "")
-        .trim();
-
-      finalTitle = await generateTitle(storyContent, argv);
-      const titleSlug = slugify(finalTitle) || "untitled";
-      const publishedContent = `# ${finalTitle}\n\n${cleanedStory}`;
-
-      finalPublishedPath = path.join(runDir, RUN_FILE_NAMES.published);
-      await fs.writeFile(finalPublishedPath, publishedContent);
-      await fs.writeFile(path.join(runDir, RUN_FILE_NAMES.title), `${finalTitle}\n`);
-      await fs.writeFile(
-        path.join(runDir, RUN_FILE_NAMES.metadata),
-        JSON.stringify(
-          {
-            run_index: runIndex,
-            title: finalTitle,
-            published: true,
-            timestamp: new Date().toISOString()
-          },
-          null,
-          2
-        )
+      // Aggregate
+      await runStage(manifest, stage("aggregate"), [currentStory, ...critiques, povPath], [planPath], () =>
+        handleAggregate({
+          ...argv,
+          story: currentStory,
+          critiques,
+          pov: povPath,
+          out: planPath
+        })
       );
 
-      // Rename run directory with title slug if available
-      const desiredBaseName = `${runIndex}_${titleSlug}`;
-      let targetDir = path.join(baseOut, desiredBaseName);
-      let suffix = 1;
-      while (
-        (await fs.pathExists(targetDir)) &&
-        path.resolve(targetDir) !== path.resolve(runDir)
-      ) {
-        suffix++;
-        targetDir = path.join(baseOut, `${desiredBaseName}-${suffix}`);
-      }
+      // Revise
+      await runStage(
+        manifest,
+        stage("revise"),
+        [currentStory, planPath, argv.bible, ...critiques],
+        [cycleRevisedPath],
+        () =>
+          handleRevise({
+            ...argv,
+            story: currentStory,
+            plan: planPath,
+            critiques,
+            out: cycleRevisedPath
+          })
+      );
+
+      // Check the revision against the plan (informational; recorded per cycle)
+      const verifyPath = file(RUN_FILE_NAMES.verify(cycle));
+      await runStage(manifest, stage("verify"), [currentStory, cycleRevisedPath, planPath], [verifyPath], async () => {
+        const check = await handleVerify({
+          ...argv,
+          before: currentStory,
+          after: cycleRevisedPath,
+          plan: planPath,
+          out: verifyPath
+        });
+        return check.summary;
+      });
 
-      if (path.resolve(targetDir) !== path.resolve(runDir)) {
-        await fs.rename(runDir, targetDir);
-        runDir = targetDir;
-        finalPublishedPath = path.join(runDir, "published.md");
+      // Lint before paying for retells
+      const lintPath = file(RUN_FILE_NAMES.lint(RUN_FILE_NAMES.revised(cycle)));
+      const revisedLint = await runStage(manifest, stage("lint"), [cycleRevisedPath, argv.bible], [lintPath], async () => {
+        const report = await handleLint({ ...argv, fromRun: true, story: cycleRevisedPath, out: lintPath });
+        return { ok: report.ok };
+      });
+      if (!revisedLint.ok) {
+        if (cycle < maxCycles) {
+          console.log(chalk.yellow(`\n⚠ Revision failed lint. Running cycle ${cycle + 1}...`));
+          continue;
+        }
+        failureReason = "Revised story failed lint";
+        console.log(chalk.red("\n✗ Max cycles reached. Publish: NO"));
+        speak("Max cycles reached", argv.speak);
+        break;
       }
 
-      console.log(chalk.green.bold(`\n📘 Published story saved to ${finalPublishedPath}`));
-      publishSuccess = true;
-      break;
-    } catch (err: any) {
+      // Retell
+      await runStage(manifest, stage("retell"), [cycleRevisedPath], retells, () =>
+        handleRetell({
+          ...argv,
+          out: manifest.dir,
+          story: cycleRevisedPath,
+          fileName: (id: string) => RUN_FILE_NAMES.retell(cycle, id)
+        })
+      );
+
+      // Gate
+      const gatePath = file(RUN_FILE_NAMES.gate(cycle));
+      const gate = await runStage(
+        manifest,
+        stage("gate"),
+        [cycleRevisedPath, planPath, argv.bible, ...critiques, ...retells],
+        [gatePath],
+        async () => {
+          try {
+            await handleGate({
+              ...argv,
+              fromRun: true,
+              story: cycleRevisedPath,
+              plan: planPath,
+              out: gatePath,
+              critiques,
+              retells
+            });
+            return { publish: true, reason: null };
+          } catch (err) {
+            if (err instanceof GateFailedError) {
+              return { publish: false, reason: err.message };
+            }
+            throw err;
+          }
+        }
+      );
+
+      if (gate.publish) {
+        publishedFrom = cycleRevisedPath;
+        break;
+      }
       if (cycle < maxCycles) {
         console.log(chalk.yellow(`\n⚠ Gate failed. Running cycle ${cycle + 1}...`));
-        currentStory = cycleRevisedPath;
       } else {
-        failureReason = err?.message || "Gate failed";
+        failureReason = gate.reason || "Gate failed";
         console.log(chalk.red("\n✗ Max cycles reached. Publish: NO"));
         speak("Max cycles reached", argv.speak);
-        break;
       }
     }
+
+    if (publishedFrom) {
+      const storyPath = publishedFrom;
+      const { title } = await runStage(
+        manifest,
+        "publish",
+        [storyPath],
+        [file(RUN_FILE_NAMES.published), file(RUN_FILE_NAMES.title), file(RUN_FILE_NAMES.metadata)],
+        async () => {
+          const storyContent = await fs.readFile(storyPath, "utf-8");
+          const cleanedStory = stripBeatTags(storyContent);
+
+          const finalTitle = await generateTitle(storyContent, argv);
+          const publishedContent = `# ${finalTitle}\n\n${cleanedStory}`;
+
+          await fs.writeFile(file(RUN_FILE_NAMES.published), publishedContent);
+          await fs.writeFile(file(RUN_FILE_NAMES.title), `${finalTitle}\n`);
+          await fs.writeFile(
+            file(RUN_FILE_NAMES.metadata),
+            JSON.stringify(
+              {
+                run_index: manifest.data.run_index,
+                title: finalTitle,
+                published: true,
+                form: resolveForm(bible).name,
+                word_count: countWords(cleanedStory),
+                ...draftProvenance(manifest),
+                cache: cacheStats(),
+                usage: usageSummary(await readUsageLog(file(RUN_FILE_NAMES.usage))),
+                timestamp: new Date().toISOString()
+              },
+              null,
+              2
+            )
+          );
+          return { title: finalTitle };
+        }
+      );
+
+      // Rename run directory with title slug if available
+      const runDir = await renameRunDir(manifest, slugify(title) || "untitled");
+      manifest.data.status = "published";
+      await manifest.save();
+
+      console.log(chalk.green.bold(`\n📘 Published story saved to ${path.join(runDir, RUN_FILE_NAMES.published)}`));
+      console.log(chalk.blue(`Title: ${title}`));
+      console.log(chalk.blue(`Run directory: ${runDir}`));
+      return runOutcome(manifest, { status: "published", title, reason: null, cycles: cyclesUsed });
+    }
+  } catch (err) {
+    manifest.data.status = "interrupted";
+    await manifest.save();
+    console.log(chalk.red(`\n✗ Run interrupted: ${(err as Error).message}`));
+    console.log(chalk.yellow(`Resume with: npx ts-node src/cli.ts resume ${manifest.dir}`));
+    throw err;
   }
 
-  if (!publishSuccess) {
-    const failedBase = `${runIndex}_failed`;
-    let failedDir = path.join(baseOut, failedBase);
-    let suffix = 1;
-    while (
-      (await fs.pathExists(failedDir)) &&
-      path.resolve(failedDir) !== path.resolve(runDir)
-    ) {
-      suffix++;
-      failedDir = path.join(baseOut, `${failedBase}-${suffix}`);
+  const runDir = await renameRunDir(manifest, "failed");
+  manifest.data.status = "failed";
+  await manifest.save();
+
+  await fs.writeFile(
+    path.join(runDir, RUN_FILE_NAMES.metadata),
+    JSON.stringify(
+      {
+        run_index: manifest.data.run_index,
+        title: null,
+        published: false,
+        reason: failureReason,
+        ...(failureReason === "budget exceeded" && { budget: budgetCheck }),
+        ...draftProvenance(manifest),
+        cache: cacheStats(),
+        usage: usageSummary(await readUsageLog(path.join(runDir, RUN_FILE_NAMES.usage))),
+        timestamp: new Date().toISOString()
+      },
+      null,
+      2
+    )
+  );
+
+  console.log(chalk.red(`Artifacts saved to ${runDir}`));
+  return runOutcome(manifest, { status: "failed", title: null, reason: failureReason, cycles: cyclesUsed });
+}
+
+async function runOutcome(
+  manifest: RunManifest,
+  result: Pick<RunOutcome, "status" | "title" | "reason" | "cycles">
+): Promise<RunOutcome> {
+  const totals = sumUsage(await readUsageLog(path.join(manifest.dir, RUN_FILE_NAMES.usage)));
+  return {
+    run_index: manifest.data.run_index,
+    run_dir: manifest.dir,
+    ...result,
+    cost_usd: totals.cost_usd,
+    unpriced_calls: totals.unpriced_calls
+  };
+}
+
+interface BatchResult {
+  bible: string;
+  /** null for an invalid bible, which gets one row and no runs */
+  variation: number | null;
+  run_index: string | null;
+  run_dir: string | null;
+  /** "interrupted": the run threw; resume it from run_dir. "invalid": the bible failed validation */
+  status: RunOutcome["status"] | "interrupted" | "invalid";
+  title: string | null;
+  reason: string | null;
+  cycles: number | null;
+  cost_usd: number | null;
+}
+
+/** Parse repeated `--rate-limit provider=rpm` values */
+function parseRateLimits(values: string[] = []): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const value of values) {
+    const match = value.match(/^(.+)=(\d+(?:\.\d+)?)$/);
+    if (!match || Number(match[2]) <= 0) {
+      throw new Error(`Invalid --rate-limit "${value}"; use provider=requests_per_minute (e.g. openai=60)`);
     }
+    limits[match[1]] = Number(match[2]);
+  }
+  return limits;
+}
 
-    if (path.resolve(failedDir) !== path.resolve(runDir)) {
-      await fs.rename(runDir, failedDir);
-      runDir = failedDir;
+/** One batch run in its own run context, with console output going to its run log */
+async function runBatchJob(job: { bible: string; variation: number }, argv: any): Promise<BatchResult> {
+  const runArgv = { ...argv, bible: job.bible, speak: false };
+  let manifest: RunManifest | null = null;
+  try {
+    manifest = await createRun(runArgv);
+    const logFile = path.join(manifest.dir, RUN_FILE_NAMES.log);
+    const outcome = await withRunContext({ logFile }, () => executeRun(manifest!, runArgv));
+    return { ...job, ...outcome };
+  } catch (err) {
+    const spent = manifest ? sumUsage(await readUsageLog(path.join(manifest.dir, RUN_FILE_NAMES.usage))) : null;
+    return {
+      ...job,
+      run_index: manifest?.data.run_index ?? null,
+      run_dir: manifest?.dir ?? null,
+      status: "interrupted",
+      title: null,
+      reason: (err as Error).message,
+      cycles: null,
+      cost_usd: spent?.cost_usd ?? null
+    };
+  }
+}
+
+function formatBatchRow(result: BatchResult): string {
+  const mark =
+    result.status === "published"
+      ? chalk.green("✓")
+      : result.status === "interrupted"
+        ? chalk.yellow("!")
+        : chalk.red("✗");
+  const run = result.run_dir ? path.basename(result.run_dir) : "-";
+  const cost = result.cost_usd === null ? "-" : `$${result.cost_usd.toFixed(4)}`;
+  const detail = result.title ?? result.reason ?? "";
+  const label = `${path.basename(result.bible)}${result.variation === null ? "" : ` #${result.variation}`}`;
+  return `  ${mark} ${label.padEnd(28)} ${run.padEnd(36)} ` +
+    `${String(result.cycles ?? "-").padStart(2)} cycle(s) ${cost.padStart(9)}  ${detail}`;
+}
+
+async function handleBatch(argv: any) {
+  const bibles = [...new Set((await Promise.all((argv.bibles as string[]).map(expandGlob))).flat())];
+  if (!bibles.length) throw new Error(`No bibles match ${argv.bibles.join(" ")}`);
+  configureRateLimits(parseRateLimits(argv.rateLimit));
+
+  // Check every bible before any run starts spending; an invalid one is reported, not run
+  const valid: string[] = [];
+  const invalid: BatchResult[] = [];
+  for (const bible of bibles) {
+    try {
+      await loadBible(bible);
+      valid.push(bible);
+    } catch (err) {
+      if (err instanceof ConfigValidationError) {
+        for (const diagnostic of err.diagnostics) console.log(chalk.red(formatDiagnostic(bible, diagnostic)));
+      } else {
+        console.log(chalk.red(`${bible}: ${(err as Error).message}`));
+      }
+      invalid.push({
+        bible: path.resolve(bible),
+        variation: null,
+        run_index: null,
+        run_dir: null,
+        status: "invalid",
+        title: null,
+        reason: err instanceof ConfigValidationError ? `invalid bible (${err.diagnostics.length} issue(s))` : (err as Error).message,
+        cycles: null,
+        cost_usd: null
+      });
     }
+  }
 
-    await fs.writeFile(
-      path.join(runDir, RUN_FILE_NAMES.metadata),
-      JSON.stringify(
-        {
-          run_index: runIndex,
-          title: null,
-          published: false,
-          reason: failureReason,
-          timestamp: new Date().toISOString()
-        },
-        null,
-        2
-      )
-    );
+  const jobs = valid.flatMap((bible) =>
+    Array.from({ length: argv.variations }, (_, i) => ({ bible: path.resolve(bible), variation: i + 1 }))
+  );
+  const concurrency = Math.max(1, Math.min(argv.concurrency, jobs.length));
+  const baseOut = path.resolve(argv.out);
+  console.log(
+    chalk.bold(`\n📚 Batch: ${valid.length} bible(s) × ${argv.variations} variation(s), ${concurrency} at a time`) +
+      (invalid.length ? chalk.red(`; ${invalid.length} invalid bible(s) skipped`) : "")
+  );
+
+  const startedAt = new Date().toISOString();
+  const results: BatchResult[] = new Array(jobs.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      results[index] = await runBatchJob(jobs[index], argv);
+      done++;
+      console.log(chalk.gray(`[${done}/${jobs.length}]`), formatBatchRow(results[index]).trimStart());
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  results.unshift(...invalid);
+  const summaryPath = path.join(baseOut, `batch-${startedAt.replace(/[:.]/g, "-")}.json`);
+  const count = (status: BatchResult["status"]) => results.filter((r) => r.status === status).length;
+  const summary = {
+    bibles,
+    variations: argv.variations,
+    concurrency,
+    published: count("published"),
+    failed: count("failed"),
+    interrupted: count("interrupted"),
+    invalid: count("invalid"),
+    cost_usd: Number(results.reduce((sum, r) => sum + (r.cost_usd ?? 0), 0).toFixed(6)),
+    runs: results,
+    started_at: startedAt,
+    finished_at: new Date().toISOString()
+  };
+  await fs.ensureDir(baseOut);
+  await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2));
+
+  console.log(chalk.bold(`\n📚 Batch summary (${summaryPath})`));
+  for (const result of results) console.log(formatBatchRow(result));
+  console.log(
+    chalk.bold(
+      `  ${summary.published} published, ${summary.failed} failed, ${summary.interrupted} interrupted` +
+        `${summary.invalid ? `, ${summary.invalid} invalid bible(s)` : ""}; total $${summary.cost_usd.toFixed(4)}`
+    )
+  );
+  if (summary.interrupted) {
+    console.log(chalk.yellow("Interrupted runs can be continued with: npx ts-node src/cli.ts resume <runDir>"));
+  }
+  if (summary.interrupted || summary.invalid) process.exit(1);
+}
+
+function formatUsageRow(label: string, totals: UsageTotals): string {
+  const cost = `$${totals.cost_usd.toFixed(4)}${totals.unpriced_calls ? ` (+${totals.unpriced_calls} unpriced)` : ""}`;
+  return `  ${label.padEnd(44)} ${String(totals.calls).padStart(5)} calls ` +
+    `${String(totals.input_tokens).padStart(9)} in ${String(totals.output_tokens).padStart(8)} out  ${cost}`;
+}
+
+/** Run artifacts matching `<prefix><judge id>.json`, in judge-id order */
+async function readJudgeFiles<T>(runDir: string, prefix: string, schema: ZodTypeAny): Promise<Array<{ judge: string; value: T }>> {
+  const names = (await fs.readdir(runDir)).filter((name) => name.startsWith(prefix) && name.endsWith(".json"));
+  const files = [];
+  for (const name of names.sort()) {
+    const judge = name.slice(prefix.length, -".json".length);
+    files.push({ judge, value: schema.parse(JSON.parse(await fs.readFile(path.join(runDir, name), "utf-8"))) as T });
+  }
+  return files;
+}
+
+/** Highest cycle with an artifact named `<prefix>c<cycle>-…` in the run directory */
+async function latestCycle(runDir: string, prefix: string): Promise<number | null> {
+  const cycles = (await fs.readdir(runDir))
+    .map((name) => name.match(new RegExp(`^${prefix}c(\\d+)-`)))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => Number(match[1]));
+  return cycles.length ? Math.max(...cycles) : null;
+}
+
+async function handleReport(argv: any) {
+  const runDir = path.resolve(argv.runDir);
+  if (!(await fs.pathExists(runDir))) throw new Error(`Run directory ${runDir} does not exist`);
+  const read = async (name: string) => {
+    const file = path.join(runDir, name);
+    return (await fs.pathExists(file)) ? fs.readFile(file, "utf-8") : null;
+  };
+  const readJson = async (name: string) => {
+    const content = await read(name);
+    return content === null ? null : JSON.parse(content);
+  };
+
+  const manifest = await RunManifest.load(runDir).catch(() => null);
+  const metadata = await readJson(RUN_FILE_NAMES.metadata);
+  const biblePath = typeof manifest?.data.options.bible === "string" ? manifest.data.options.bible : null;
+  const bible = biblePath ? await loadBible(biblePath).catch(() => null) : null;
+  const policyOption = typeof manifest?.data.options.policy === "string" ? manifest.data.options.policy : undefined;
+  const policy = await loadGatePolicy(resolvePolicyPath(policyOption, biblePath ?? undefined, bible)).catch(() =>
+    loadGatePolicy(null)
+  );
+
+  const revisions: ReportData["revisions"] = [];
+  for (const name of (await fs.readdir(runDir)).sort()) {
+    const match = name.match(/^05-(\d+)-revised\.md$/);
+    if (match) revisions.push({ cycle: Number(match[1]), file: name, text: (await read(name))! });
+  }
 
-    console.log(chalk.red(`Artifacts saved to ${runDir}`));
-    process.exit(1);
+  // Report the latest cycle's critiques, plan, retells and gate; the last critique stage's first input is the story critiqued
+  const critiqueStage = manifest?.data.stages.filter((stage) => /^c\d+\.critique$/.test(stage.id)).pop();
+  const critiquedKey = critiqueStage ? Object.keys(critiqueStage.inputs)[0] : RUN_FILE_NAMES.draft;
+  const critiquedFile = path.isAbsolute(critiquedKey) ? critiquedKey : path.join(runDir, critiquedKey);
+  const critiquedText = (await fs.pathExists(critiquedFile)) ? await fs.readFile(critiquedFile, "utf-8") : null;
+
+  const critiqueCycle = await latestCycle(runDir, "02-");
+  const planCycle = await latestCycle(runDir, "04-");
+  const retellCycle = await latestCycle(runDir, "06-");
+  const gateCycle = await latestCycle(runDir, "11-");
+  const planJson = planCycle === null ? null : await readJson(RUN_FILE_NAMES.plan(planCycle));
+  const data: ReportData = {
+    runDir,
+    runIndex: manifest?.data.run_index ?? metadata?.run_index ?? path.basename(runDir).slice(0, 3),
+    status: manifest?.data.status ?? (metadata ? (metadata.published ? "published" : "failed") : "unknown"),
+    title: (await read(RUN_FILE_NAMES.title))?.trim() || null,
+    reason: metadata?.reason ?? null,
+    costUsd: metadata?.usage?.total?.cost_usd ?? null,
+    bible,
+    biblePath,
+    draft: await read(RUN_FILE_NAMES.draft),
+    revisions,
+    critiqued: critiquedText === null ? null : { file: path.basename(critiquedFile), text: critiquedText },
+    critiques: (await readJudgeFiles<z.infer<typeof Critique>>(runDir, `02-c${critiqueCycle}-critique_`, Critique)).map(
+      ({ judge, value }) => ({ judge, critique: value })
+    ),
+    minSimilarity: policy.grounding.min_similarity,
+    plan: planJson === null ? null : Plan.parse(planJson),
+    retells: (await readJudgeFiles<z.infer<typeof Retell>>(runDir, `06-c${retellCycle}-retell_`, Retell)).map(({ judge, value }) => ({
+      judge,
+      retell: value.retell
+    })),
+    gate: gateCycle === null ? null : await readJson(RUN_FILE_NAMES.gate(gateCycle))
+  };
+
+  const outPath = argv.out ? path.resolve(argv.out) : path.join(runDir, RUN_FILE_NAMES.report);
+  await fs.writeFile(outPath, renderReport(data));
+  console.log(chalk.green(`✓ Report saved to ${outPath}`));
+}
+
+async function handleCosts(argv: any) {
+  const baseOut = path.resolve(argv.outDir);
+  const entries = await fs.readdir(baseOut).catch(() => [] as string[]);
+  const runs: Array<{ run: string; entries: Awaited<ReturnType<typeof readUsageLog>> }> = [];
+  for (const name of entries.sort()) {
+    const ledger = path.join(baseOut, name, RUN_FILE_NAMES.usage);
+    if (await fs.pathExists(ledger)) {
+      runs.push({ run: name, entries: await readUsageLog(ledger) });
+    }
   }
+  const all = runs.flatMap((r) => r.entries);
+
+  const summary = {
+    runs: runs.length,
+    total: sumUsage(all),
+    by_model: groupUsage(all, (e) => e.model),
+    by_role: groupUsage(all, (e) => e.role),
+    by_run: Object.fromEntries(runs.map((r) => [r.run, sumUsage(r.entries)]))
+  };
 
-  if (publishSuccess && finalTitle) {
-    console.log(chalk.blue(`Title: ${finalTitle}`));
-    console.log(chalk.blue(`Run directory: ${runDir}`));
+  if (argv.json) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+
+  console.log(chalk.bold(`\n💰 Spend across ${summary.runs} run(s) in ${baseOut}`));
+  console.log(chalk.blue("By model:"));
+  for (const [model, totals] of Object.entries(summary.by_model)) console.log(formatUsageRow(model, totals));
+  console.log(chalk.blue("By role:"));
+  for (const [role, totals] of Object.entries(summary.by_role)) console.log(formatUsageRow(role, totals));
+  console.log(chalk.bold(formatUsageRow("Total", summary.total)));
+  if (summary.total.unpriced_calls) {
+    console.log(chalk.yellow(`⚠ Some calls have no price; add their models to ${DEFAULT_PRICES_FILE} (or --prices)`));
   }
 }
 
+async function handlePromptsShow(argv: any) {
+  const name = promptNameFor(argv.role);
+  const bible = argv.bible ? await loadBible(argv.bible) : null;
+  const prompt = await resolvePrompt(name, bible, argv.bible);
+
+  const missing = (what: string, flag: string) => `<${what}: pass ${flag}>`;
+  const plan = argv.plan ? Plan.parse(JSON.parse(await fs.readFile(argv.plan, "utf-8"))) : null;
+  const critiques = await Promise.all(
+    ((argv.critiques as string[] | undefined) ?? []).map(async (file) => ({
+      id: judgeIdFromFile(file),
+      critique: JSON.parse(await fs.readFile(file, "utf-8"))
+    }))
+  );
+  let text = renderPrompt(prompt, {
+    BIBLE_JSON: missing("bible", "--bible"),
+    WORD_CAP: missing("word cap", "--bible"),
+    BEATS: missing("beats", "--bible"),
+    BEAT_LIST: missing("beat list", "--bible"),
+    ...(bible && bibleVariables(bible)),
+    STORY: argv.story ? await fs.readFile(argv.story, "utf-8") : missing("story", "--story"),
+    MUST_FIX_JSON: plan ? JSON.stringify(plan.must_fix, null, 2) : missing("must-fix items", "--plan"),
+    REVISION_PLAN_JSON: plan ? JSON.stringify(plan.revision_plan, null, 2) : missing("revision plan", "--plan"),
+    PRIOR_CRITIQUE: critiques.length ? formatPriorCritique(critiques) : missing("critiques", "--critiques")
+  });
+
+  // Judge roles ("critique.b") get that judge's persona, as they would in a run
+  const judgeId =
+    argv.role.includes(".") && !ROLE_PROMPTS[argv.role] ? argv.role.split(".").slice(1).join(".") : null;
+  if (judgeId) {
+    const panel = await resolvePanel(argv, bible);
+    const judge = panel.judges.find((j) => j.id === judgeId);
+    if (!judge) throw new Error(`No judge "${judgeId}" on the panel (${panel.judges.map((j) => j.id).join(", ")})`);
+    text = judgeSystemPrompt(text, judge);
+  }
+
+  console.log(chalk.gray(`# ${name} — ${prompt.source} (${prompt.path})`));
+  console.log(text);
+}
+
+async function handleValidateBible(argv: any) {
+  let failed = 0;
+
+  for (const file of argv.files as string[]) {
+    try {
+      await loadBible(file);
+      console.log(chalk.green(`✓ ${file}`));
+    } catch (err) {
+      failed++;
+      if (err instanceof ConfigValidationError) {
+        for (const diagnostic of err.diagnostics) {
+          console.log(chalk.red(formatDiagnostic(file, diagnostic)));
+        }
+      } else {
+        console.log(chalk.red(`${file}: ${(err as Error).message}`));
+      }
+    }
+  }
+
+  if (failed) {
+    console.log(chalk.red(`\n✗ ${failed} of ${argv.files.length} bible(s) invalid`));
+  }
+  process.exit(failed ? 1 : 0);
+}
+
 // CLI setup
 yargs(hideBin(process.argv))
+  .option("cache", {
+    type: "boolean",
+    describe: "Enable the on-disk response cache (default: $MODEL_CACHE); --no-cache disables it"
+  })
+  .option("cache-ttl", { type: "string", describe: "Cache entry lifetime, e.g. 3600, 90m, 12h, 7d (default: $MODEL_CACHE_TTL or 7d)" })
+  .option("cache-writer", {
+    type: "boolean",
+    default: false,
+    describe: "Also cache non-deterministic calls (writer, reviser, temperature > 0)"
+  })
+  .option("resilience", {
+    type: "string",
+    default: process.env.RESILIENCE_CONFIG,
+    describe: "Retry/timeout/fallback policy YAML, e.g. config/policies/resilience.yaml (default: $RESILIENCE_CONFIG)"
+  })
+  .option("prices", {
+    type: "string",
+    default: process.env.PRICES_CONFIG,
+    describe: `Price table YAML, USD per million tokens (default: $PRICES_CONFIG or ${DEFAULT_PRICES_FILE})`
+  })
+  .option("providers", {
+    type: "string",
+    default: process.env.PROVIDERS_CONFIG,
+    describe: `OpenAI-compatible endpoints for local/ and compat:<name>/ models (default: $PROVIDERS_CONFIG or ${DEFAULT_PROVIDERS_FILE})`
+  })
+  .middleware(async (argv) => {
+    const providersPath = argv.providers ?? DEFAULT_PROVIDERS_FILE;
+    if (argv.providers || (await fs.pathExists(providersPath))) {
+      configureProviders(await loadProvidersConfig(providersPath));
+    }
+    if (argv.resilience) {
+      configureResilience(await loadResiliencePolicy(argv.resilience));
+    }
+    const pricesPath = argv.prices ?? DEFAULT_PRICES_FILE;
+    if (argv.prices || (await fs.pathExists(pricesPath))) {
+      configurePrices(await loadPriceTable(pricesPath));
+    }
+    configureCache({
+      ...(argv.cache !== undefined && { enabled: argv.cache }),
+      ...(argv.cacheTtl !== undefined && { ttlMs: parseTtl(argv.cacheTtl) }),
+      includeNonDeterministic: argv.cacheWriter
+    });
+  })
   .command(
     "run",
     "End-to-end: draft → critique → aggregate → revise → retell → gate",
@@ -723,13 +1837,85 @@ yargs(hideBin(process.argv))
       return yargs
         .option("bible", { type: "string", demandOption: true, describe: "Story Bible YAML path" })
         .option("out", { type: "string", demandOption: true, describe: "Output directory" })
-        .option("seed", { type: "string", describe: "Seed draft (optional)" })
+        .option("seed", { type: "string", describe: "Seed draft (optional): use this markdown as 01-draft.md instead of drafting" })
+        .option("auto-tag", {
+          type: "boolean",
+          default: false,
+          describe: "Insert beat tags into an untagged seed with a writer call"
+        })
+        .option("policy", { type: "string", describe: "Gate policy YAML (overrides the bible's gate_policy)" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (overrides the bible's panel)" })
+        .option("max-cost", { type: "number", describe: "Budget in USD; overrides the policy's budget.max_cost_usd" })
+        .option("max-calls", { type: "number", describe: "Maximum billable model calls; overrides budget.max_calls" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false })
         .option("dry", { type: "boolean", default: false });
     },
     handleRun
   )
+  .command(
+    "batch <bibles..>",
+    "Run many bibles (paths or globs) and variations with bounded concurrency",
+    (yargs) => {
+      return yargs
+        .positional("bibles", { type: "string", array: true, demandOption: true, describe: "Story Bible paths or globs (quote globs)" })
+        .option("out", { type: "string", demandOption: true, describe: "Output directory shared by every run" })
+        .option("variations", { type: "number", default: 1, describe: "Runs per bible" })
+        .option("concurrency", { type: "number", default: 2, describe: "Runs executing at once" })
+        .option("rate-limit", {
+          type: "string",
+          array: true,
+          describe: "Requests per minute per provider, shared by all runs (e.g. openai=60); overrides resilience rate_limits"
+        })
+        .option("policy", { type: "string", describe: "Gate policy YAML (overrides each bible's gate_policy)" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (overrides each bible's panel)" })
+        .option("max-cost", { type: "number", describe: "Per-run budget in USD" })
+        .option("max-calls", { type: "number", describe: "Per-run maximum billable model calls" })
+        .option("verbose", { type: "boolean", default: false });
+    },
+    handleBatch
+  )
+  .command(
+    "resume <runDir>",
+    "Continue a run from its first incomplete stage",
+    (yargs) => {
+      return yargs
+        .positional("runDir", { type: "string", demandOption: true, describe: "Run directory containing 00-manifest.json" })
+        .option("rerun-from", {
+          type: "string",
+          describe: "Regenerate this stage and everything after it (e.g. revise, c2.aggregate)"
+        })
+        .option("verbose", { type: "boolean", default: false })
+        .option("speak", { type: "boolean", default: false });
+    },
+    handleResume
+  )
+  .command(
+    "bible",
+    "Generate a Story Bible YAML from a logline",
+    (yargs) => {
+      return yargs
+        .option("logline", { type: "string", demandOption: true, describe: "One-sentence story idea" })
+        .option("out", { type: "string", demandOption: true, describe: "Output bible YAML (config/x.yaml)" })
+        .option("genre", { type: "string", describe: "Genre preset: a name in config/genres/ (e.g. cosmic-horror) or a YAML path" })
+        .option("form", {
+          type: "string",
+          choices: Object.keys(FORMS),
+          describe: "Story form (beats, budgets, word cap); overrides the genre preset's"
+        })
+        .option("candidates", {
+          type: "number",
+          default: 1,
+          describe: "Generate N bibles for selection, written as <out>-1.yaml … <out>-N.yaml"
+        })
+        .option("force", { type: "boolean", default: false, describe: "Overwrite existing output files" })
+        .option("writer", { type: "string", describe: "Writer model (e.g., openai/gpt-4o-mini)" })
+        .option("verbose", { type: "boolean", default: false })
+        .option("speak", { type: "boolean", default: false })
+        .option("dry", { type: "boolean", default: false });
+    },
+    handleBible
+  )
   .command(
     "draft",
     "Create a first draft from Story Bible",
@@ -746,13 +1932,16 @@ yargs(hideBin(process.argv))
   )
   .command(
     "critique",
-    "Run Focus Groups A and B",
+    "Run the focus-group panel (one critique per judge)",
     (yargs) => {
       return yargs
         .option("story", { type: "string", demandOption: true })
         .option("out", { type: "string", demandOption: true, describe: "Output directory" })
-        .option("judgeA", { type: "string", describe: "Judge A model (e.g., anthropic/claude-sonnet-4-5)" })
-        .option("judgeB", { type: "string", describe: "Judge B model (e.g., openrouter/deepseek/deepseek-chat)" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (overrides the bible's panel)" })
+        .option("judgeA", { type: "string", describe: "Judge A model for the default panel (e.g., anthropic/claude-sonnet-4-5)" })
+        .option("judgeB", { type: "string", describe: "Judge B model for the default panel (e.g., openrouter/deepseek/deepseek-chat)" })
+        .option("bible", { type: "string", describe: "Story Bible YAML (POV lexicon, panel, gate_policy)" })
+        .option("policy", { type: "string", describe: "Gate policy YAML (quote grounding mode and similarity)" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false })
         .option("dry", { type: "boolean", default: false });
@@ -765,9 +1954,11 @@ yargs(hideBin(process.argv))
     (yargs) => {
       return yargs
         .option("story", { type: "string", demandOption: true })
-        .option("a", { type: "string", demandOption: true, describe: "Critique A JSON" })
-        .option("b", { type: "string", demandOption: true, describe: "Critique B JSON" })
+        .option("critiques", { type: "string", array: true, demandOption: true, describe: "Critique JSON files (critique_<judge>.json)" })
+        .option("pov", { type: "string", describe: "Local POV findings saved by critique (default: pov.json beside the critiques)" })
         .option("out", { type: "string", demandOption: true, describe: "Output plan JSON" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (weights and quorum)" })
+        .option("bible", { type: "string", describe: "Story Bible YAML (panel)" })
         .option("aggregator", { type: "string", describe: "Aggregator model (e.g., openai/gpt-5)" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false })
@@ -783,21 +1974,51 @@ yargs(hideBin(process.argv))
         .option("bible", { type: "string", demandOption: true })
         .option("story", { type: "string", demandOption: true })
         .option("plan", { type: "string", demandOption: true })
+        .option("critiques", { type: "string", array: true, describe: "Critique JSON files, for {{PRIOR_CRITIQUE}}" })
+        .option("mode", {
+          type: "string",
+          choices: ["surgical", "full"],
+          describe: "surgical: rewrite only the targeted sentences of line fixes; full: rewrite the story (default: policy revision.mode)"
+        })
+        .option("policy", { type: "string", describe: "Gate policy YAML (revision.mode, grounding.min_similarity)" })
         .option("out", { type: "string", demandOption: true })
         .option("writer", { type: "string", describe: "Writer model (e.g., openai/gpt-4o-mini)" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false })
         .option("dry", { type: "boolean", default: false });
     },
-    handleRevise
+    async (argv) => {
+      await handleRevise(argv);
+    }
+  )
+  .command(
+    "verify",
+    "Check a revision against its plan: addressed / untouched / unclear items and collateral rewrites",
+    (yargs) => {
+      return yargs
+        .option("before", { type: "string", demandOption: true, describe: "Story before revision" })
+        .option("after", { type: "string", demandOption: true, describe: "Revised story" })
+        .option("plan", { type: "string", demandOption: true, describe: "Plan JSON the revision followed" })
+        .option("bible", { type: "string", describe: "Story Bible YAML (gate_policy, prompt overrides)" })
+        .option("policy", { type: "string", describe: "Gate policy YAML (revision_check, grounding.min_similarity)" })
+        .option("llm", { type: "boolean", describe: "Also ask a model whether each success_metric is met (default: policy revision_check.llm)" })
+        .option("aggregator", { type: "string", describe: "Checker model when the policy names none" })
+        .option("out", { type: "string", describe: "Write the check JSON here" })
+        .option("verbose", { type: "boolean", default: false });
+    },
+    async (argv) => {
+      await handleVerify(argv);
+    }
   )
   .command(
     "retell",
-    "Ask both judges for 2-sentence retells",
+    "Ask every judge on the panel for a 2-sentence retell",
     (yargs) => {
       return yargs
         .option("story", { type: "string", demandOption: true })
         .option("out", { type: "string", demandOption: true, describe: "Output directory" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (overrides the bible's panel)" })
+        .option("bible", { type: "string", describe: "Story Bible YAML (panel)" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false })
         .option("dry", { type: "boolean", default: false });
@@ -809,15 +2030,93 @@ yargs(hideBin(process.argv))
     "Decide publish based on ratings and retell match",
     (yargs) => {
       return yargs
-        .option("a", { type: "string", demandOption: true, describe: "Critique A JSON" })
-        .option("b", { type: "string", demandOption: true, describe: "Critique B JSON" })
-        .option("ra", { type: "string", demandOption: true, describe: "Retell A JSON" })
-        .option("rb", { type: "string", demandOption: true, describe: "Retell B JSON" })
+        .option("critiques", { type: "string", array: true, demandOption: true, describe: "Critique JSON files (critique_<judge>.json)" })
+        .option("retells", { type: "string", array: true, demandOption: true, describe: "Retell JSON files (retell_<judge>.json)" })
+        .option("panel", { type: "string", describe: "Judge panel YAML (weights)" })
+        .option("story", { type: "string", describe: "Story to check for hard deep-POV violations" })
+        .option("bible", { type: "string", describe: "Story Bible YAML (lint, POV lexicon, gate_policy, panel)" })
+        .option("plan", { type: "string", describe: "Plan JSON (for plan_gate honor/clamp)" })
+        .option("policy", { type: "string", describe: "Gate policy YAML (overrides the bible's gate_policy)" })
+        .option("out", { type: "string", describe: "Write the structured gate result JSON here" })
         .option("verbose", { type: "boolean", default: false })
         .option("speak", { type: "boolean", default: false });
     },
     handleGate
   )
+  .command(
+    "lint",
+    "Check beat tags, per-beat word budgets and the word cap (no API calls)",
+    (yargs) => {
+      return yargs
+        .option("story", { type: "string", demandOption: true })
+        .option("bible", { type: "string", demandOption: true })
+        .option("out", { type: "string", describe: "Write the lint report JSON here" })
+        .option("json", { type: "boolean", default: false, describe: "Print the report as JSON" });
+    },
+    async (argv) => {
+      await handleLint(argv);
+    }
+  )
+  .command(
+    "prompts",
+    "Inspect prompt templates",
+    (yargs) => {
+      return yargs
+        .command(
+          "show <role>",
+          "Print the fully resolved prompt for a role or template name",
+          (yargs) => {
+            return yargs
+              .positional("role", {
+                type: "string",
+                demandOption: true,
+                describe: "Role (writer, reviser, critique, critique.<judge>, aggregator, ...) or template name"
+              })
+              .option("bible", { type: "string", describe: "Story Bible (enables bible overrides and variables)" })
+              .option("story", { type: "string", describe: "Story for {{STORY}}" })
+              .option("plan", { type: "string", describe: "Plan JSON for {{MUST_FIX_JSON}} / {{REVISION_PLAN_JSON}}" })
+              .option("critiques", { type: "string", array: true, describe: "Critique JSON files for {{PRIOR_CRITIQUE}}" })
+              .option("panel", { type: "string", describe: "Judge panel YAML (for critique.<judge> personas)" });
+          },
+          handlePromptsShow
+        )
+        .demandCommand(1, "Use: prompts show <role>");
+    },
+    () => {}
+  )
+  .command(
+    "report <runDir>",
+    "Render a run as a self-contained HTML page (diffs, highlighted critiques, plan, retells, gate)",
+    (yargs) => {
+      return yargs
+        .positional("runDir", { type: "string", demandOption: true, describe: "Run directory" })
+        .option("out", { type: "string", describe: "HTML output path (default: <runDir>/15-report.html)" });
+    },
+    handleReport
+  )
+  .command(
+    "costs <outDir>",
+    "Summarize token usage and spend across the runs in an output directory",
+    (yargs) => {
+      return yargs
+        .positional("outDir", { type: "string", demandOption: true, describe: "Output directory containing runs" })
+        .option("json", { type: "boolean", default: false, describe: "Print the summary as JSON" });
+    },
+    handleCosts
+  )
+  .command(
+    "validate-bible <files..>",
+    "Validate Story Bible YAML files against the schema",
+    (yargs) => {
+      return yargs.positional("files", {
+        type: "string",
+        array: true,
+        demandOption: true,
+        describe: "Story Bible YAML paths"
+      });
+    },
+    handleValidateBible
+  )
   .demandCommand(1, "You must provide a command")
   .help()
   .strict()
@@ -0,0 +1,99 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import { BibleDraft, GenrePreset, StoryBible } from "../schemas";
+import { loadYamlConfig, parseYamlConfig } from "./config";
+import { formLength, statedWordCap, StoryForm } from "./forms";
+
+export const GENRES_DIR = path.join(__dirname, "..", "..", "config", "genres");
+
+export function parseBible(source: string, file: string = "<bible>"): StoryBible {
+  return parseYamlConfig(source, StoryBible, file);
+}
+
+export async function loadBible(biblePath: string): Promise<StoryBible> {
+  return loadYamlConfig(biblePath, StoryBible);
+}
+
+/** Preset names available in config/genres/ */
+export async function listGenres(): Promise<string[]> {
+  if (!(await fs.pathExists(GENRES_DIR))) return [];
+  return (await fs.readdir(GENRES_DIR))
+    .filter((file) => /\.ya?ml$/.test(file))
+    .map((file) => file.replace(/\.ya?ml$/, ""))
+    .sort();
+}
+
+/** A preset name ("cosmic-horror") from config/genres/, or a path to a preset YAML */
+export async function loadGenrePreset(genre: string): Promise<GenrePreset> {
+  if (/\.ya?ml$/.test(genre)) return loadYamlConfig(genre, GenrePreset);
+  for (const ext of ["yaml", "yml"]) {
+    const file = path.join(GENRES_DIR, `${genre}.${ext}`);
+    if (await fs.pathExists(file)) return loadYamlConfig(file, GenrePreset);
+  }
+  const known = await listGenres();
+  throw new Error(`Unknown genre "${genre}" (known: ${known.join(", ") || `none in ${GENRES_DIR}`})`);
+}
+
+/** User prompt for one bible: the logline, the preset, and which candidate this is */
+export function bibleRequest(
+  logline: string,
+  preset: GenrePreset | null,
+  form: StoryForm | null,
+  candidate: { index: number; count: number }
+): string {
+  const lines = [`Logline: ${logline}`];
+  if (form) {
+    const beats = form.beats.map((beat) => `[${beat.name} ${beat.budget}w]`).join(" ");
+    lines.push("", `Form: ${form.label}, ${formLength(form)}, beats ${beats}. Leave out beat_budget and word-cap constraints.`);
+  }
+  if (preset) {
+    const { guidance, ...fields } = preset;
+    lines.push("", `Genre preset:\n${JSON.stringify(fields, null, 2)}`);
+    if (guidance.trim()) lines.push("", `Genre guidance: ${guidance.trim()}`);
+  }
+  if (candidate.count > 1) {
+    lines.push(
+      "",
+      `This is candidate ${candidate.index} of ${candidate.count}. Take the logline somewhere the other candidates ` +
+        "are unlikely to go: a different angle on the premise, theme and concrete details."
+    );
+  }
+  return lines.join("\n");
+}
+
+function union(first: string[], second: string[]): string[] {
+  const seen = new Set(first.map((item) => item.toLowerCase()));
+  return [...first, ...second.filter((item) => !seen.has(item.toLowerCase()))];
+}
+
+/**
+ * Turn a generated draft into a bible. The preset's pov and tense override
+ * the model's, and its constraints and off_limits are added to the model's
+ * lists. A form (given, else the preset's) replaces beat_budget and any
+ * word-cap constraint; without one, the preset's beat_budget wins.
+ */
+export function applyGenrePreset(
+  draft: z.infer<typeof BibleDraft>,
+  preset: GenrePreset | null,
+  form: string | null
+): StoryBible {
+  const formName = form ?? preset?.form;
+  const constraints = union(preset?.constraints ?? [], draft.constraints);
+  return StoryBible.parse({
+    ...draft,
+    pov: preset?.pov ?? draft.pov,
+    tense: preset?.tense ?? draft.tense,
+    ...(formName
+      ? { form: formName, beat_budget: undefined, constraints: constraints.filter((c) => statedWordCap(c) === null) }
+      : { beat_budget: preset?.beat_budget ?? draft.beat_budget, constraints }),
+    off_limits: union(preset?.off_limits ?? [], draft.off_limits)
+  });
+}
+
+/** Bible YAML with a leading comment block */
+export function formatBible(bible: StoryBible, comments: string[]): string {
+  const header = comments.map((line) => `# ${line}\n`).join("");
+  return header + YAML.stringify(bible, { lineWidth: 0 });
+}
@@ -0,0 +1,89 @@
+import { GatePolicy } from "../schemas";
+import { costOf, sumUsage, TokenUsage, UsageEntry } from "./usage";
+
+export type Budget = GatePolicy["budget"];
+
+/** A call a cycle is expected to make */
+export interface PlannedCall {
+  role: string;
+  model: string;
+}
+
+export interface CycleProjection {
+  cost_usd: number;
+  calls: number;
+}
+
+export interface BudgetCheck {
+  ok: boolean;
+  max_cost_usd: number | null;
+  max_calls: number | null;
+  spent_usd: number;
+  /** Billable calls so far (cache hits and cassette playback are free) */
+  calls: number;
+  projected: CycleProjection;
+  /** Calls whose cost is unknown, so `spent_usd` is a lower bound */
+  unpriced_calls: number;
+  reason: string | null;
+}
+
+/** `--max-cost` / `--max-calls` win over the policy's `budget` */
+export function resolveBudget(argv: { maxCost?: number; maxCalls?: number }, policy: GatePolicy): Budget {
+  return {
+    max_cost_usd: argv.maxCost ?? policy.budget.max_cost_usd,
+    max_calls: argv.maxCalls ?? policy.budget.max_calls
+  };
+}
+
+const billable = (entries: UsageEntry[]) => entries.filter((entry) => !entry.cached);
+
+/** Tokens assumed per call before any call in the run has reported usage */
+const DEFAULT_CALL_TOKENS: TokenUsage = { input_tokens: 2000, output_tokens: 800 };
+
+/**
+ * Expected spend of the next cycle: each planned call priced from the price
+ * table at the run's average tokens per call so far, and never less than
+ * the previous cycle's actual cost and call count.
+ */
+export function projectCycle(entries: UsageEntry[], cycle: number, planned: PlannedCall[]): CycleProjection {
+  const reported = billable(entries).filter((entry) => entry.input_tokens + entry.output_tokens > 0);
+  const totals = sumUsage(reported);
+  const tokens = reported.length
+    ? {
+        input_tokens: totals.input_tokens / reported.length,
+        output_tokens: totals.output_tokens / reported.length
+      }
+    : DEFAULT_CALL_TOKENS;
+  const estimate = planned.reduce((sum, call) => sum + (costOf(call.model, tokens) ?? 0), 0);
+  const previous = billable(entries.filter((entry) => entry.cycle === cycle - 1));
+  return {
+    cost_usd: Math.max(sumUsage(previous).cost_usd, estimate),
+    calls: Math.max(previous.length, planned.length)
+  };
+}
+
+export function checkBudget(budget: Budget, entries: UsageEntry[], projected: CycleProjection): BudgetCheck {
+  const spent = sumUsage(billable(entries));
+  const maxCost = budget.max_cost_usd ?? null;
+  const maxCalls = budget.max_calls ?? null;
+
+  let reason: string | null = null;
+  if (maxCost !== null && spent.cost_usd + projected.cost_usd > maxCost) {
+    reason = `projected cycle cost $${projected.cost_usd.toFixed(4)} exceeds remaining budget ` +
+      `$${Math.max(0, maxCost - spent.cost_usd).toFixed(4)} of $${maxCost}`;
+  } else if (maxCalls !== null && spent.calls + projected.calls > maxCalls) {
+    reason = `projected cycle needs ${projected.calls} calls but only ${Math.max(0, maxCalls - spent.calls)} ` +
+      `of ${maxCalls} remain`;
+  }
+
+  return {
+    ok: reason === null,
+    max_cost_usd: maxCost,
+    max_calls: maxCalls,
+    spent_usd: spent.cost_usd,
+    calls: spent.calls,
+    projected,
+    unpriced_calls: spent.unpriced_calls,
+    reason
+  };
+}
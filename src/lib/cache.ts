@@ -0,0 +1,174 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { inRunContext, runContext } from "./run-context";
+import { TokenUsage } from "./usage";
+
+export interface CacheConfig {
+  enabled: boolean;
+  dir: string;
+  ttlMs: number;
+  /** Also cache calls with temperature > 0 (e.g. the writer); off unless explicitly requested */
+  includeNonDeterministic: boolean;
+}
+
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  /** The temperature actually sent, after any provider override */
+  temperature: number;
+  responseFormat: "text" | "json";
+  /** Name of the structured-output schema, if one was sent */
+  schemaName?: string;
+}
+
+export interface CachedResponse {
+  text: string;
+  usage: TokenUsage | null;
+}
+
+interface CacheEntry {
+  key: string;
+  provider: string;
+  model: string;
+  created_at: string;
+  response: string;
+  /** Usage of the original call; a hit itself costs nothing */
+  usage?: TokenUsage | null;
+}
+
+type Outcome = "hit" | "miss" | "bypass";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse a TTL like "3600", "90m", "12h" or "7d" into milliseconds */
+export function parseTtl(ttl: string | number): number {
+  if (typeof ttl === "number") return ttl * 1000;
+  const match = ttl.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/);
+  if (!match) throw new Error(`Invalid cache TTL "${ttl}"; use seconds or a number with s/m/h/d`);
+  const unit = { "": 1000, s: 1000, m: 60_000, h: 3_600_000, d: DAY_MS }[match[2] as "" | "s" | "m" | "h" | "d"];
+  return parseFloat(match[1]) * unit;
+}
+
+let config: CacheConfig = {
+  enabled: ["1", "on", "true"].includes((process.env.MODEL_CACHE || "").toLowerCase()),
+  dir: path.resolve(process.env.MODEL_CACHE_DIR || ".cache/fictionflow"),
+  ttlMs: process.env.MODEL_CACHE_TTL ? parseTtl(process.env.MODEL_CACHE_TTL) : 7 * DAY_MS,
+  includeNonDeterministic: false
+};
+
+type CacheStats = { hits: number; misses: number; bypassed: number; by_role: Record<string, Record<Outcome, number>> };
+
+const emptyStats = (): CacheStats => ({ hits: 0, misses: 0, bypassed: 0, by_role: {} });
+const globalStats = emptyStats();
+/** Separate counters per run so concurrent runs report their own cache use */
+const runStats = new WeakMap<object, CacheStats>();
+
+function currentStats(): CacheStats {
+  if (!inRunContext()) return globalStats;
+  const context = runContext();
+  if (!runStats.has(context)) runStats.set(context, emptyStats());
+  return runStats.get(context)!;
+}
+
+export function configureCache(overrides: Partial<CacheConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+/** Counters for the current run, or for the process outside a run */
+export function cacheStats(): CacheStats {
+  return JSON.parse(JSON.stringify(currentStats()));
+}
+
+function track(role: string, outcome: Outcome) {
+  const stats = currentStats();
+  if (outcome === "hit") stats.hits++;
+  else if (outcome === "miss") stats.misses++;
+  else stats.bypassed++;
+  stats.by_role[role] ??= { hit: 0, miss: 0, bypass: 0 };
+  stats.by_role[role][outcome]++;
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        parts.provider,
+        parts.model,
+        parts.systemPrompt ?? "",
+        parts.userPrompt,
+        parts.temperature,
+        parts.responseFormat,
+        parts.schemaName ?? ""
+      ])
+    )
+    .digest("hex");
+}
+
+function entryPath(key: string): string {
+  return path.join(config.dir, key.slice(0, 2), `${key}.json`);
+}
+
+/** A missing, truncated or otherwise unreadable entry is simply a miss */
+async function readEntry(file: string): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/** Write to a temp file and rename it into place so concurrent readers never see a partial entry */
+async function writeEntry(file: string, entry: CacheEntry): Promise<void> {
+  await fs.ensureDir(path.dirname(file));
+  const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fs.writeFile(tmp, JSON.stringify(entry, null, 2));
+    await fs.rename(tmp, file);
+  } catch (error) {
+    await fs.remove(tmp);
+    throw error;
+  }
+}
+
+/**
+ * Return the cached response for a call, or run `fetch` and store its result.
+ * Calls with temperature > 0 bypass the cache unless non-deterministic caching
+ * is enabled globally or requested for this call.
+ */
+export async function withCache(
+  parts: CacheKeyParts,
+  role: string,
+  forceCache: boolean,
+  fetch: () => Promise<CachedResponse>
+): Promise<{ response: CachedResponse; cached: boolean }> {
+  const cacheable = config.enabled && (parts.temperature === 0 || config.includeNonDeterministic || forceCache);
+  if (!cacheable) {
+    if (config.enabled) track(role, "bypass");
+    return { response: await fetch(), cached: false };
+  }
+
+  const key = cacheKey(parts);
+  const file = entryPath(key);
+  const cached = await readEntry(file);
+  if (cached && Date.now() - Date.parse(cached.created_at) <= config.ttlMs) {
+    track(role, "hit");
+    return { response: { text: cached.response, usage: cached.usage ?? null }, cached: true };
+  }
+
+  track(role, "miss");
+  const response = await fetch();
+  const entry: CacheEntry = {
+    key,
+    provider: parts.provider,
+    model: parts.model,
+    created_at: new Date().toISOString(),
+    response: response.text,
+    usage: response.usage
+  };
+  await writeEntry(file, entry);
+  return { response, cached: false };
+}
@@ -0,0 +1,64 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+import { TokenUsage } from "./usage";
+
+export interface CassetteEntry {
+  key: string;
+  model: string;
+  role?: string;
+  request: {
+    systemPrompt?: string;
+    userPrompt: string;
+    /** The temperature actually sent, after any provider override */
+    temperature: number;
+    responseFormat: "text" | "json";
+    schemaName?: string;
+  };
+  response: string;
+  /** Token usage of the recorded live call, if the provider reported it */
+  usage?: TokenUsage | null;
+  recorded_at: string;
+}
+
+export function cassetteDir(): string {
+  return path.resolve(process.env.CASSETTE_DIR || "cassettes");
+}
+
+/** "record" fills in missing exchanges from the live provider; "playback" (default) never goes to the network */
+export function replayMode(): "record" | "playback" {
+  return process.env.REPLAY_MODE === "record" ? "record" : "playback";
+}
+
+export function cassetteKey(model: string, request: CassetteEntry["request"]): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        model,
+        request.systemPrompt ?? "",
+        request.userPrompt,
+        request.temperature,
+        request.responseFormat,
+        request.schemaName ?? ""
+      ])
+    )
+    .digest("hex")
+    .slice(0, 24);
+}
+
+/** One file per exchange so concurrent runs never rewrite the same cassette */
+function entryPath(key: string): string {
+  return path.join(cassetteDir(), `${key}.json`);
+}
+
+export async function readCassette(key: string): Promise<CassetteEntry | null> {
+  const file = entryPath(key);
+  if (!(await fs.pathExists(file))) return null;
+  return JSON.parse(await fs.readFile(file, "utf-8"));
+}
+
+export async function writeCassette(entry: CassetteEntry): Promise<void> {
+  await fs.ensureDir(cassetteDir());
+  await fs.writeFile(entryPath(entry.key), JSON.stringify(entry, null, 2));
+}
@@ -0,0 +1,116 @@
+import * as fs from "fs-extra";
+import YAML, { LineCounter, isMap, isScalar, Node } from "yaml";
+import { ZodIssue, ZodTypeAny, z } from "zod";
+
+export interface ConfigDiagnostic {
+  line: number;
+  col: number;
+  path: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public file: string, public diagnostics: ConfigDiagnostic[]) {
+    super(
+      `Invalid config ${file}:\n` +
+        diagnostics.map((d) => `  ${formatDiagnostic(file, d)}`).join("\n")
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+export function formatDiagnostic(file: string, d: ConfigDiagnostic): string {
+  const where = d.path ? ` ${d.path}:` : "";
+  return `${file}:${d.line}:${d.col}${where} ${d.message}`;
+}
+
+/**
+ * Find the YAML node a zod issue points at. Unrecognized keys are reported
+ * against the key itself so the diagnostic lands on the typo, not its parent.
+ */
+function locateIssue(doc: YAML.Document.Parsed, issue: ZodIssue): Node | null {
+  const path = issue.path;
+  const target = path.length ? doc.getIn(path, true) : doc.contents;
+
+  if (issue.code === "unrecognized_keys") {
+    const parent = path.length ? doc.getIn(path, true) : doc.contents;
+    if (isMap(parent)) {
+      for (const pair of parent.items) {
+        if (isScalar(pair.key) && issue.keys.includes(String(pair.key.value))) {
+          return pair.key;
+        }
+      }
+    }
+  }
+
+  if (target && typeof target === "object" && "range" in (target as object)) {
+    return target as Node;
+  }
+
+  // Missing keys have no node; walk up to the nearest existing ancestor
+  for (let i = path.length - 1; i >= 0; i--) {
+    const ancestor = i === 0 ? doc.contents : doc.getIn(path.slice(0, i), true);
+    if (ancestor && typeof ancestor === "object" && "range" in (ancestor as object)) {
+      return ancestor as Node;
+    }
+  }
+  return null;
+}
+
+function describeIssue(issue: ZodIssue): string {
+  if (issue.code === "unrecognized_keys") {
+    return `unknown key${issue.keys.length > 1 ? "s" : ""} ${issue.keys.map((k) => `"${k}"`).join(", ")}`;
+  }
+  if (issue.code === "invalid_type" && issue.received === "undefined") {
+    return "required field is missing";
+  }
+  return issue.message;
+}
+
+/**
+ * Parse YAML source and validate it against a zod schema. Returns the typed
+ * value or throws ConfigValidationError with line/column diagnostics.
+ */
+export function parseYamlConfig<S extends ZodTypeAny>(
+  source: string,
+  schema: S,
+  file: string
+): z.infer<S> {
+  const lineCounter = new LineCounter();
+  const doc = YAML.parseDocument(source, { lineCounter });
+
+  if (doc.errors.length) {
+    throw new ConfigValidationError(
+      file,
+      doc.errors.map((err) => ({
+        line: err.linePos?.[0].line ?? 1,
+        col: err.linePos?.[0].col ?? 1,
+        path: "",
+        message: err.message.split("\n")[0]
+      }))
+    );
+  }
+
+  const result = schema.safeParse(doc.toJS());
+  if (result.success) {
+    return result.data;
+  }
+
+  const diagnostics = result.error.issues.map((issue) => {
+    const node = locateIssue(doc, issue);
+    const pos = node?.range ? lineCounter.linePos(node.range[0]) : { line: 1, col: 1 };
+    return {
+      line: pos.line,
+      col: pos.col,
+      path: issue.path.join("."),
+      message: describeIssue(issue)
+    };
+  });
+  diagnostics.sort((a, b) => a.line - b.line || a.col - b.col);
+  throw new ConfigValidationError(file, diagnostics);
+}
+
+export async function loadYamlConfig<S extends ZodTypeAny>(filePath: string, schema: S): Promise<z.infer<S>> {
+  const content = await fs.readFile(filePath, "utf-8");
+  return parseYamlConfig(content, schema, filePath);
+}
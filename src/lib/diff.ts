@@ -0,0 +1,111 @@
+export interface DiffOp {
+  op: "same" | "add" | "del";
+  text: string;
+}
+
+/** A contiguous change, with offsets into the original text */
+export interface DiffHunk {
+  start: number;
+  end: number;
+  removed: string;
+  added: string;
+}
+
+interface Token {
+  /** The word with its leading whitespace, so a diff reassembles the original spacing */
+  text: string;
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/\s*\S+/g)].map((match) => {
+    const word = match[0].trim();
+    const end = match.index! + match[0].length;
+    return { text: match[0], word, start: end - word.length, end };
+  });
+}
+
+type TokenOp = { op: "same"; a: number; b: number } | { op: "del"; a: number } | { op: "add"; b: number };
+
+/** Longest common subsequence over words, ignoring whitespace changes */
+function diffTokens(a: Token[], b: Token[]): TokenOp[] {
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i].word === b[j].word
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: TokenOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].word === b[j].word) {
+      ops.push({ op: "same", a: i++, b: j++ });
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ op: "del", a: i++ });
+    } else {
+      ops.push({ op: "add", b: j++ });
+    }
+  }
+  while (i < a.length) ops.push({ op: "del", a: i++ });
+  while (j < b.length) ops.push({ op: "add", b: j++ });
+  return ops;
+}
+
+/** Word-level diff; consecutive operations of the same kind are merged */
+export function wordDiff(before: string, after: string): DiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const ops: DiffOp[] = [];
+  for (const step of diffTokens(a, b)) {
+    const text = step.op === "del" ? a[step.a].text : b[step.b].text;
+    const last = ops[ops.length - 1];
+    if (last?.op === step.op) last.text += text;
+    else ops.push({ op: step.op, text });
+  }
+  return ops;
+}
+
+/**
+ * Changed regions of `before`. A pure insertion is an empty range at the
+ * point where the new words went in.
+ */
+export function diffHunks(before: string, after: string): DiffHunk[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const hunks: DiffHunk[] = [];
+  let open: { removed: Token[]; added: Token[]; at: number } | null = null;
+
+  const close = () => {
+    if (!open) return;
+    const { removed, added, at } = open;
+    hunks.push({
+      start: removed.length ? removed[0].start : at,
+      end: removed.length ? removed[removed.length - 1].end : at,
+      removed: removed.map((t) => t.word).join(" "),
+      added: added.map((t) => t.word).join(" ")
+    });
+    open = null;
+  };
+
+  let position = 0;
+  for (const step of diffTokens(a, b)) {
+    if (step.op === "same") {
+      close();
+      position = a[step.a].end;
+      continue;
+    }
+    open ??= { removed: [], added: [], at: position };
+    if (step.op === "del") open.removed.push(a[step.a]);
+    else open.added.push(b[step.b]);
+  }
+  close();
+  return hunks;
+}
@@ -0,0 +1,38 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+
+const LOCK_NAME = ".lock";
+/** A lock older than this is assumed to belong to a crashed process */
+const STALE_MS = 30_000;
+const POLL_MS = 50;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `fn` while holding an exclusive lock on `dir`. The lock is a
+ * subdirectory created with mkdir, which is atomic, so it also serializes
+ * separate processes writing runs into the same output directory.
+ */
+export async function withDirLock<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  await fs.ensureDir(dir);
+  const lock = path.join(dir, LOCK_NAME);
+  for (;;) {
+    try {
+      await fs.promises.mkdir(lock);
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const stats = await fs.stat(lock).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > STALE_MS) {
+        await fs.remove(lock);
+        continue;
+      }
+      await sleep(POLL_MS);
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await fs.remove(lock);
+  }
+}
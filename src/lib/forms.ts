@@ -0,0 +1,96 @@
+import type { StoryBible } from "../schemas";
+
+export interface FormBeat {
+  /** Tag name as it appears in the story ("SETUP") */
+  name: string;
+  budget: number;
+}
+
+/** Length and beat structure a story is written, linted and gated against */
+export interface StoryForm {
+  /** Built-in form name, or "custom" for a bible that sets beat_budget itself */
+  name: string;
+  /** "100-word drabble"; fills {{FORM}} */
+  label: string;
+  word_cap: number;
+  /** Lint error below this many words; null for no minimum */
+  min_words: number | null;
+  beats: FormBeat[];
+}
+
+type FormDefinition = Omit<StoryForm, "name" | "beats"> & { beats: Record<string, number> };
+
+/** Built-in forms, selected with `form: <name>` in a bible */
+export const FORMS: Record<string, FormDefinition> = {
+  "micro-50": {
+    label: "50-word microfiction",
+    word_cap: 50,
+    min_words: null,
+    beats: { SETUP: 15, TURN: 25, BUTTON: 10 }
+  },
+  drabble: {
+    label: "100-word drabble",
+    word_cap: 100,
+    min_words: 100,
+    beats: { SETUP: 25, TURN: 35, AFTERSHOCK: 30, BUTTON: 10 }
+  },
+  "micro-180": {
+    label: "180-word micro-fiction",
+    word_cap: 180,
+    min_words: null,
+    beats: { SETUP: 40, TURN: 70, AFTERSHOCK: 60, BUTTON: 10 }
+  },
+  "flash-500": {
+    label: "500-word flash fiction",
+    word_cap: 500,
+    min_words: 350,
+    beats: { SETUP: 100, TURN: 170, AFTERSHOCK: 180, BUTTON: 50 }
+  },
+  "sudden-750": {
+    label: "750-word sudden fiction",
+    word_cap: 750,
+    min_words: 550,
+    beats: { SETUP: 150, TURN: 250, AFTERSHOCK: 250, BUTTON: 100 }
+  },
+  "five-beat-1000": {
+    label: "1000-word short story in five beats",
+    word_cap: 1000,
+    min_words: 750,
+    beats: { SETUP: 150, INCITING: 200, ESCALATION: 250, CLIMAX: 250, RESOLUTION: 150 }
+  }
+};
+
+const WORD_CAP_PATTERN = /(?:≤|<=|max(?:imum)?|under|at most|no more than)\s*(\d+)\s*(?:w\b|words?)/i;
+
+/** Word cap stated by a bible constraint ("≤180 words"), or null */
+export function statedWordCap(constraint: string): number | null {
+  const match = constraint.match(WORD_CAP_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+export function formByName(name: string): StoryForm {
+  const form = FORMS[name];
+  if (!form) throw new Error(`Unknown form "${name}" (known: ${Object.keys(FORMS).join(", ")})`);
+  return { name, ...form, beats: Object.entries(form.beats).map(([beat, budget]) => ({ name: beat, budget })) };
+}
+
+/**
+ * The bible's form: a built-in one when `form` is set, else a custom form
+ * from `beat_budget`, capped by the first constraint that states a word cap
+ * (or the sum of the budgets).
+ */
+export function resolveForm(bible: StoryBible): StoryForm {
+  if (bible.form) return formByName(bible.form);
+  const budget = bible.beat_budget ?? {};
+  const beats = Object.entries(budget).map(([name, words]) => ({ name: name.toUpperCase(), budget: words }));
+  const stated = bible.constraints.map(statedWordCap).find((cap) => cap !== null);
+  const cap = stated ?? beats.reduce((sum, beat) => sum + beat.budget, 0);
+  return { name: "custom", label: `${cap}-word micro-fiction`, word_cap: cap, min_words: null, beats };
+}
+
+/** "≤180 words", "exactly 100 words", "350–500 words"; fills {{LENGTH}} */
+export function formLength(form: StoryForm): string {
+  if (form.min_words === form.word_cap) return `exactly ${form.word_cap} words`;
+  if (form.min_words !== null) return `${form.min_words}–${form.word_cap} words`;
+  return `≤${form.word_cap} words`;
+}
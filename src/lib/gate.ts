@@ -0,0 +1,211 @@
+import * as path from "path";
+import { z } from "zod";
+import { GatePolicy, Plan, Ratings, StoryBible } from "../schemas";
+import { loadYamlConfig } from "./config";
+import { LintReport } from "./lint";
+import { PovFinding, povConfusions } from "./pov";
+import { PanelRetellComparison } from "./retell-compare";
+
+type RatingsValue = z.infer<typeof Ratings>;
+type PlanGate = z.infer<typeof Plan>["gate"];
+
+const DIMENSIONS = ["clarity", "stakes", "momentum", "ending_resonance"] as const;
+
+export interface GateInputs {
+  /** One per judge; `weight` defaults to 1; `grounding` is present once quotes were checked (see ./grounding) */
+  critiques: Array<{
+    id?: string;
+    ratings: RatingsValue;
+    confusions: Array<{ quote: string }>;
+    weight?: number;
+    grounding?: { rate: number };
+  }>;
+  retell: PanelRetellComparison | null;
+  lint: LintReport | null;
+  /** Local deep-POV findings (see ./pov): the hard ones fail the gate, and every one no judge quoted counts as a confusion */
+  pov: PovFinding[] | null;
+  planGate: PlanGate | null;
+}
+
+export interface GateRule {
+  rule: string;
+  observed: number | boolean | null;
+  threshold: number | boolean | null;
+  comparator: ">=" | "<=" | "==";
+  pass: boolean;
+  /** Rule is required by policy but its input was not available */
+  skipped?: boolean;
+}
+
+export interface GateResult {
+  publish: boolean;
+  threshold_source: "policy" | "plan" | "plan (clamped)";
+  averages: RatingsValue;
+  /** Judges' confusions plus POV findings none of them quoted */
+  total_confusions: number;
+  pov_confusions: number;
+  retell: PanelRetellComparison | null;
+  rules: GateRule[];
+}
+
+/** Thrown by the gate when the story does not meet the policy (as opposed to an API or I/O error) */
+export class GateFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GateFailedError";
+  }
+}
+
+export async function loadGatePolicy(policyPath?: string | null): Promise<GatePolicy> {
+  return policyPath ? loadYamlConfig(policyPath, GatePolicy) : GatePolicy.parse({});
+}
+
+/**
+ * `--policy` wins; otherwise the bible's `gate_policy`, resolved relative to
+ * the bible file (`policies/gate.yaml` for a bible in config/); otherwise null,
+ * for the built-in defaults
+ */
+export function resolvePolicyPath(
+  cliPolicy: string | undefined,
+  biblePath: string | undefined,
+  bible: StoryBible | null
+): string | null {
+  if (cliPolicy) return cliPolicy;
+  if (bible?.gate_policy && biblePath) {
+    return path.resolve(path.dirname(biblePath), bible.gate_policy);
+  }
+  return null;
+}
+
+function clamp(value: number, [lo, hi]: [number, number]): number {
+  return Math.min(hi, Math.max(lo, value));
+}
+
+function thresholds(policy: GatePolicy, planGate: PlanGate | null) {
+  const { mode, score_range, max_confusions_range } = policy.plan_gate;
+  if (mode === "ignore" || !planGate) {
+    return {
+      source: "policy" as const,
+      min: policy.min_avg_scores,
+      maxConfusions: policy.max_confusions
+    };
+  }
+  if (mode === "honor") {
+    return {
+      source: "plan" as const,
+      min: planGate.min_avg_scores,
+      maxConfusions: planGate.max_confusions
+    };
+  }
+  const min = { ...planGate.min_avg_scores };
+  for (const dim of DIMENSIONS) {
+    min[dim] = clamp(min[dim], score_range);
+  }
+  return {
+    source: "plan (clamped)" as const,
+    min,
+    maxConfusions: clamp(planGate.max_confusions, max_confusions_range)
+  };
+}
+
+/**
+ * Evaluate every policy rule against the observed run results. Each rule is
+ * reported with its observed value and threshold so a failure is explainable.
+ */
+export function evaluateGate(inputs: GateInputs, policy: GatePolicy): GateResult {
+  const { source, min, maxConfusions } = thresholds(policy, inputs.planGate);
+  const totalWeight = inputs.critiques.reduce((sum, c) => sum + (c.weight ?? 1), 0) || 1;
+  const rules: GateRule[] = [];
+
+  const averages = { clarity: 0, stakes: 0, momentum: 0, ending_resonance: 0 };
+  for (const dim of DIMENSIONS) {
+    averages[dim] = inputs.critiques.reduce((sum, c) => sum + c.ratings[dim] * (c.weight ?? 1), 0) / totalWeight;
+    rules.push({
+      rule: `min_avg.${dim}`,
+      observed: averages[dim],
+      threshold: min[dim],
+      comparator: ">=",
+      pass: averages[dim] >= min[dim]
+    });
+  }
+
+  const judged = inputs.critiques.flatMap((c) => c.confusions);
+  const povCount = povConfusions(inputs.pov ?? [], judged).length;
+  const totalConfusions = judged.length + povCount;
+  rules.push({
+    rule: "max_confusions",
+    observed: totalConfusions,
+    threshold: maxConfusions,
+    comparator: "<=",
+    pass: totalConfusions <= maxConfusions
+  });
+
+  if (policy.require_retell_match) {
+    if (!inputs.retell?.pairs.length) {
+      rules.push({ rule: "retell_match", observed: null, threshold: true, comparator: "==", pass: true, skipped: true });
+    }
+    for (const pair of inputs.retell?.pairs ?? []) {
+      for (const result of pair.strategies) {
+        rules.push({
+          rule: `retell.${result.strategy}[${pair.a}~${pair.b}]`,
+          observed: result.score,
+          threshold: result.threshold,
+          comparator: ">=",
+          pass: result.pass
+        });
+      }
+    }
+  }
+
+  if (policy.grounding.min_rate !== undefined) {
+    inputs.critiques.forEach((critique, i) => {
+      const rate = critique.grounding?.rate ?? null;
+      rules.push({
+        rule: `grounding[${critique.id ?? i + 1}]`,
+        observed: rate,
+        threshold: policy.grounding.min_rate!,
+        comparator: ">=",
+        pass: rate === null || rate >= policy.grounding.min_rate!,
+        skipped: rate === null || undefined
+      });
+    });
+  }
+
+  if (policy.require_lint) {
+    rules.push({
+      rule: "lint",
+      observed: inputs.lint ? inputs.lint.issues.filter((i) => i.severity === "error").length : null,
+      threshold: 0,
+      comparator: "<=",
+      pass: inputs.lint ? inputs.lint.ok : true,
+      skipped: inputs.lint === null || undefined
+    });
+  }
+
+  if (policy.require_pov) {
+    const hard = inputs.pov ? inputs.pov.filter((f) => f.severity === "hard").length : null;
+    rules.push({
+      rule: "pov_hard_violations",
+      observed: hard,
+      threshold: 0,
+      comparator: "<=",
+      pass: hard === null || hard === 0,
+      skipped: hard === null || undefined
+    });
+  }
+
+  return {
+    publish: rules.every((rule) => rule.pass),
+    threshold_source: source,
+    averages,
+    total_confusions: totalConfusions,
+    pov_confusions: povCount,
+    retell: inputs.retell,
+    rules
+  };
+}
+
+export function formatRule(rule: GateRule): string {
+  const observed = typeof rule.observed === "number" ? Number(rule.observed.toFixed(2)) : rule.observed;
+  return `${rule.rule}: ${observed} ${rule.comparator} ${rule.threshold}`;
+}
@@ -0,0 +1,51 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+
+const WILDCARD = /[*?]/;
+
+function segmentRegex(segment: string): RegExp {
+  const source = segment
+    .split("")
+    .map((char) => (char === "*" ? "[^/]*" : char === "?" ? "[^/]" : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string, segments: string[]): Promise<string[]> {
+  if (!segments.length) return [dir];
+  const [head, ...rest] = segments;
+
+  if (!WILDCARD.test(head)) {
+    const next = path.join(dir, head);
+    return (await fs.pathExists(next)) ? walk(next, rest) : [];
+  }
+
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const visible = entries.filter((entry) => !entry.name.startsWith("."));
+  if (head === "**") {
+    // Zero or more directories
+    const here = await walk(dir, rest);
+    const deeper = await Promise.all(
+      visible.filter((entry) => entry.isDirectory()).map((entry) => walk(path.join(dir, entry.name), segments))
+    );
+    return [...here, ...deeper.flat()];
+  }
+
+  const regex = segmentRegex(head);
+  const matches = visible.filter((entry) => regex.test(entry.name) && (rest.length === 0 || entry.isDirectory()));
+  const results = await Promise.all(matches.map((entry) => walk(path.join(dir, entry.name), rest)));
+  return results.flat();
+}
+
+/**
+ * Expand `*`, `?` and `**` in a path pattern (Node 20 has no fs.glob). A
+ * pattern without wildcards is returned as-is so missing files still surface
+ * a clear error from whoever reads them. Hidden entries are skipped.
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  if (!WILDCARD.test(pattern)) return [pattern];
+  const absolute = path.isAbsolute(pattern);
+  const segments = pattern.split(/[\\/]+/).filter(Boolean);
+  const matches = await walk(absolute ? path.sep : ".", segments);
+  return [...new Set(matches.map((match) => path.normalize(match)))].sort();
+}
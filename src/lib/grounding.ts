@@ -0,0 +1,153 @@
+import { beatAt, parseBeats } from "./lint";
+
+export type GroundingMatch = "exact" | "normalized" | "fuzzy" | "none";
+
+/** Where a judge's quote was found in the story it critiqued */
+export interface QuoteGrounding {
+  match: GroundingMatch;
+  /** Offsets into the story as given (beat tags included); null when ungrounded */
+  start: number | null;
+  end: number | null;
+  beat: string | null;
+  /** 1 for exact/normalized matches, word-level similarity of the best window otherwise */
+  similarity: number;
+  /** Story text the quote matched, when it differs from the quote */
+  matched_text?: string;
+}
+
+export interface GroundingOptions {
+  mode: "flag" | "drop";
+  /** Lowest word-level similarity accepted as a fuzzy match */
+  min_similarity: number;
+}
+
+/** Per-critique summary, written under `grounding` in the critique file */
+export interface GroundingSummary {
+  mode: GroundingOptions["mode"];
+  total: number;
+  grounded: number;
+  /** grounded / total; 1 when the judge quoted nothing */
+  rate: number;
+  /** Ungrounded items removed in "drop" mode, kept here for inspection */
+  dropped: Array<{ kind: "confusion" | "strength"; quote: string; why: string }>;
+}
+
+interface QuoteItem {
+  quote: string;
+  why: string;
+  grounding?: QuoteGrounding;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}']/gu, "")
+    .replace(/^'+|'+$/g, "");
+}
+
+/** Words of the story with offsets, beat tags and bare punctuation skipped */
+function tokenize(text: string): Token[] {
+  const tags = parseBeats(text).segments.map((segment) => [segment.tagStart, segment.start]);
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    if (tags.some(([start, end]) => match.index! >= start && match.index! < end)) continue;
+    const word = normalizeWord(match[0]);
+    if (word) tokens.push({ word, start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find a quote in the story: verbatim first, then word-for-word ignoring case,
+ * punctuation and spacing, then the most similar window of story words
+ * (word-level edit distance). Quotes under three words are never fuzzy-matched.
+ */
+export function locateQuote(story: string, quote: string, minSimilarity: number): QuoteGrounding {
+  const { segments } = parseBeats(story);
+  const needle = quote.trim();
+  const exact = needle ? story.indexOf(needle) : -1;
+  if (exact !== -1) {
+    return { match: "exact", start: exact, end: exact + needle.length, beat: beatAt(segments, exact), similarity: 1 };
+  }
+
+  const words = tokenize(needle).map((token) => token.word);
+  const tokens = tokenize(story);
+  const ungrounded: QuoteGrounding = { match: "none", start: null, end: null, beat: null, similarity: 0 };
+  if (!words.length || !tokens.length) return ungrounded;
+
+  let best = { similarity: 0, from: 0, to: 0 };
+  const sizes = words.length < 3 ? [words.length] : [words.length - 1, words.length, words.length + 1];
+  for (const size of sizes) {
+    for (let from = 0; from + size <= tokens.length; from++) {
+      const window = tokens.slice(from, from + size).map((token) => token.word);
+      const similarity = 1 - editDistance(words, window) / Math.max(words.length, size);
+      if (similarity > best.similarity) best = { similarity, from, to: from + size };
+    }
+  }
+
+  const accepted = best.similarity === 1 || (words.length >= 3 && best.similarity >= minSimilarity);
+  if (!accepted) return { ...ungrounded, similarity: Number(best.similarity.toFixed(3)) };
+  const start = tokens[best.from].start;
+  const end = tokens[best.to - 1].end;
+  return {
+    match: best.similarity === 1 ? "normalized" : "fuzzy",
+    start,
+    end,
+    beat: beatAt(segments, start),
+    similarity: Number(best.similarity.toFixed(3)),
+    matched_text: story.slice(start, end)
+  };
+}
+
+/**
+ * Attach a `grounding` record to every confusion and strength. In "drop" mode
+ * ungrounded items are removed (and listed in the summary); in "flag" mode
+ * they stay, marked `match: "none"`.
+ */
+export function groundCritique<T extends { confusions: QuoteItem[]; strengths: QuoteItem[] }>(
+  critique: T,
+  story: string,
+  options: GroundingOptions
+): { critique: T; summary: GroundingSummary } {
+  const summary: GroundingSummary = { mode: options.mode, total: 0, grounded: 0, rate: 1, dropped: [] };
+
+  const ground = (items: QuoteItem[], kind: "confusion" | "strength") =>
+    items.flatMap((item) => {
+      const grounding = locateQuote(story, item.quote, options.min_similarity);
+      summary.total++;
+      if (grounding.match !== "none") {
+        summary.grounded++;
+      } else if (options.mode === "drop") {
+        summary.dropped.push({ kind, quote: item.quote, why: item.why });
+        return [];
+      }
+      return [{ ...item, grounding }];
+    });
+
+  const grounded = {
+    ...critique,
+    confusions: ground(critique.confusions, "confusion"),
+    strengths: ground(critique.strengths, "strength")
+  };
+  summary.rate = summary.total ? Number((summary.grounded / summary.total).toFixed(3)) : 1;
+  return { critique: grounded, summary };
+}
@@ -0,0 +1,110 @@
+import { z, ZodTypeAny } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Optional and defaulted fields may be omitted by the model */
+function isOptional(schema: ZodTypeAny): boolean {
+  return schema instanceof z.ZodOptional || schema instanceof z.ZodDefault;
+}
+
+/**
+ * JSON Schema (draft 2020-12 subset) for the zod types used in model output
+ * schemas. Refinements are dropped; their checks still run when the response
+ * is parsed.
+ */
+export function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toJsonSchema(value);
+    }
+    const required = Object.keys(shape).filter((key) => !isOptional(shape[key]));
+    return {
+      type: "object",
+      properties,
+      ...(required.length && { required }),
+      additionalProperties: false
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string" };
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    if (schema.minValue !== null) result.minimum = schema.minValue;
+    if (schema.maxValue !== null) result.maximum = schema.maxValue;
+    return result;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: toJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return result;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: toJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodTuple) {
+    const items = (schema.items as ZodTypeAny[]).map(toJsonSchema);
+    return { type: "array", prefixItems: items, minItems: items.length, maxItems: items.length };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(toJsonSchema) };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: "null" }] };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return toJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType());
+  }
+  throw new Error(`Cannot express zod type ${schema._def.typeName} as JSON Schema`);
+}
+
+/**
+ * Gemini's `responseSchema` accepts an OpenAPI subset: no
+ * `additionalProperties`, `const`, `anyOf` or `prefixItems`. Returns null when
+ * the schema needs one of those, so the caller falls back to plain JSON mode.
+ */
+export function toGeminiSchema(schema: JsonSchema): JsonSchema | null {
+  if (schema.anyOf || schema.const !== undefined || schema.prefixItems) return null;
+  if (schema.type === "object") {
+    if (!schema.properties) return null;
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+      const converted = toGeminiSchema(value);
+      if (!converted) return null;
+      properties[key] = converted;
+    }
+    return { type: "object", properties, ...(schema.required ? { required: schema.required } : {}) };
+  }
+  if (schema.type === "array") {
+    const items = toGeminiSchema(schema.items as JsonSchema);
+    if (!items) return null;
+    return {
+      type: "array",
+      items,
+      ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+      ...(schema.maxItems !== undefined && { maxItems: schema.maxItems })
+    };
+  }
+  if (schema.enum) {
+    return { type: "string", format: "enum", enum: schema.enum };
+  }
+  return { type: schema.type };
+}
@@ -0,0 +1,208 @@
+import { StoryBible } from "../schemas";
+import { resolveForm } from "./forms";
+
+export interface BeatSegment {
+  beat: string;
+  tagStart: number;
+  start: number;
+  end: number;
+  text: string;
+  words: number;
+}
+
+export interface LintIssue {
+  code:
+    | "missing_tag"
+    | "duplicate_tag"
+    | "out_of_order"
+    | "unknown_tag"
+    | "untagged_text"
+    | "beat_over_budget"
+    | "word_cap_exceeded"
+    | "under_min_words";
+  severity: "error" | "warning";
+  message: string;
+  beat?: string;
+}
+
+export interface LintReport {
+  ok: boolean;
+  /** Form name (see resolveForm) */
+  form: string;
+  total_words: number;
+  word_cap: number;
+  beats: Array<{ beat: string; words: number; budget: number | null }>;
+  issues: LintIssue[];
+}
+
+export interface LintOptions {
+  /** Fraction a beat may run over its budget before it is an error rather than a warning */
+  tolerance?: number;
+}
+
+/** A whole upper-case `[TAG]` (e.g. `[ACT_1]`) opening a line; "[Redacted]" or "[SETUP 40w]" in prose is not a beat */
+const TAG_PATTERN = /^[ \t]*\[([A-Z][A-Z0-9_]*)\]/gm;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((token) => /[\p{L}\p{N}]/u.test(token)).length;
+}
+
+/** Beat tag names in form order, e.g. ["SETUP", "TURN", "AFTERSHOCK", "BUTTON"] */
+export function beatNames(bible: StoryBible): string[] {
+  return resolveForm(bible).beats.map((beat) => beat.name);
+}
+
+/** Word cap of the bible's form (see resolveForm) */
+export function wordCap(bible: StoryBible): number {
+  return resolveForm(bible).word_cap;
+}
+
+/** Split a story on its `[TAG]` markers. Text before the first tag is returned as `preamble`. */
+export function parseBeats(story: string): { preamble: string; segments: BeatSegment[] } {
+  const tags = [...story.matchAll(TAG_PATTERN)];
+  const preamble = story.slice(0, tags[0]?.index ?? story.length);
+
+  const segments = tags.map((tag, i) => {
+    const start = tag.index! + tag[0].length;
+    const end = tags[i + 1]?.index ?? story.length;
+    const text = story.slice(start, end).trim();
+    return { beat: tag[1], tagStart: tag.index!, start, end, text, words: countWords(text) };
+  });
+
+  return { preamble, segments };
+}
+
+/** Remove beat tags, leaving only the prose */
+export function stripBeatTags(story: string): string {
+  return story.replace(new RegExp(`${TAG_PATTERN.source}\\s*`, "gm"), "").trim();
+}
+
+/** Whether text carries a beat tag anywhere */
+export function hasBeatTag(text: string): boolean {
+  return new RegExp(TAG_PATTERN.source, "m").test(text);
+}
+
+/**
+ * Widen [start, end) to the sentence(s) containing it. Beat tags and line
+ * breaks also end a sentence, so the range never includes a tag.
+ */
+export function sentenceRange(story: string, start: number, end: number): [number, number] {
+  const before = story.slice(0, start);
+  let from = Math.max(...[".", "!", "?", "\n", "]"].map((mark) => before.lastIndexOf(mark))) + 1;
+  while (from < start && /["'”’)]/.test(story[from])) from++;
+  // A span that already ends its sentence ("...do." or "...do.\"") is not widened past it
+  let tail = end;
+  while (tail > start && /["'”’)]/.test(story[tail - 1])) tail--;
+  const searchFrom = tail > start ? tail - 1 : end;
+  const after = story.slice(searchFrom).search(/[.!?\n]/);
+  const to = after === -1 ? story.length : searchFrom + after + 1;
+  // Keep closing quotes with their sentence
+  const closing = story.slice(to).match(/^["'”’)]+/);
+  return [from, to + (closing ? closing[0].length : 0)];
+}
+
+/** Beat containing a character offset, or null if it falls before the first tag */
+export function beatAt(segments: BeatSegment[], offset: number): string | null {
+  for (const segment of segments) {
+    if (offset >= segment.tagStart && offset < segment.end) return segment.beat;
+  }
+  return null;
+}
+
+/**
+ * Deterministic structure check against the bible's form: beat tags present
+ * once each and in order, per-beat word counts within budget, total within
+ * the word cap (and above the form's minimum, if it has one).
+ */
+export function lintStory(story: string, bible: StoryBible, options: LintOptions = {}): LintReport {
+  const tolerance = options.tolerance ?? 0.25;
+  const form = resolveForm(bible);
+  const expected = form.beats.map((beat) => beat.name);
+  const budgets = new Map(form.beats.map((beat) => [beat.name, beat.budget]));
+  const cap = form.word_cap;
+  const { preamble, segments } = parseBeats(story);
+  const issues: LintIssue[] = [];
+
+  if (countWords(preamble) > 0) {
+    issues.push({
+      code: "untagged_text",
+      severity: "error",
+      message: `${countWords(preamble)} word(s) before the first beat tag`
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const segment of segments) {
+    if (!budgets.has(segment.beat)) {
+      issues.push({
+        code: "unknown_tag",
+        severity: "error",
+        message: `[${segment.beat}] is not a beat in this bible (${expected.join(", ")})`,
+        beat: segment.beat
+      });
+    } else if (seen.has(segment.beat)) {
+      issues.push({
+        code: "duplicate_tag",
+        severity: "error",
+        message: `[${segment.beat}] appears more than once`,
+        beat: segment.beat
+      });
+    }
+    seen.add(segment.beat);
+  }
+
+  for (const beat of expected) {
+    if (!seen.has(beat)) {
+      issues.push({ code: "missing_tag", severity: "error", message: `[${beat}] is missing`, beat });
+    }
+  }
+
+  const order = segments.map((s) => s.beat).filter((b, i, all) => budgets.has(b) && all.indexOf(b) === i);
+  const expectedOrder = expected.filter((b) => order.includes(b));
+  if (order.join() !== expectedOrder.join()) {
+    issues.push({
+      code: "out_of_order",
+      severity: "error",
+      message: `beats appear as ${order.join(" → ")}; expected ${expectedOrder.join(" → ")}`
+    });
+  }
+
+  const beats = segments.map((segment) => {
+    const budget = budgets.get(segment.beat) ?? null;
+    if (budget !== null && segment.words > budget) {
+      const hard = segment.words > Math.floor(budget * (1 + tolerance));
+      issues.push({
+        code: "beat_over_budget",
+        severity: hard ? "error" : "warning",
+        message: `[${segment.beat}] has ${segment.words} words; budget is ${budget}`,
+        beat: segment.beat
+      });
+    }
+    return { beat: segment.beat, words: segment.words, budget };
+  });
+
+  const totalWords = countWords(stripBeatTags(story));
+  if (totalWords > cap) {
+    issues.push({
+      code: "word_cap_exceeded",
+      severity: "error",
+      message: `${totalWords} words; cap is ${cap}`
+    });
+  }
+  if (form.min_words !== null && totalWords < form.min_words) {
+    issues.push({
+      code: "under_min_words",
+      severity: "error",
+      message: `${totalWords} words; a ${form.label} needs at least ${form.min_words}`
+    });
+  }
+
+  return {
+    ok: !issues.some((issue) => issue.severity === "error"),
+    form: form.name,
+    total_words: totalWords,
+    word_cap: cap,
+    beats,
+    issues
+  };
+}
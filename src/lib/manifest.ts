@@ -0,0 +1,123 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+export const MANIFEST_FILE = "00-manifest.json";
+
+export interface StageRecord {
+  id: string;
+  /** Input path → sha256 at the time the stage completed */
+  inputs: Record<string, string>;
+  outputs: string[];
+  completed_at: string;
+  result?: unknown;
+}
+
+export interface ManifestData {
+  version: 1;
+  run_index: string;
+  /** Run options needed to resume (bible, out, models, panel, policy, ...) */
+  options: Record<string, unknown>;
+  status: "running" | "interrupted" | "published" | "failed";
+  stages: StageRecord[];
+  updated_at: string;
+}
+
+async function hashFile(file: string): Promise<string | null> {
+  if (!(await fs.pathExists(file))) return null;
+  const content = await fs.readFile(file);
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Per-run checkpoint log. Paths inside the run directory are stored relative
+ * to it so the record survives the directory being renamed on publish/fail.
+ */
+export class RunManifest {
+  constructor(public dir: string, public data: ManifestData) {}
+
+  static async create(dir: string, runIndex: string, options: Record<string, unknown>): Promise<RunManifest> {
+    const manifest = new RunManifest(dir, {
+      version: 1,
+      run_index: runIndex,
+      options,
+      status: "running",
+      stages: [],
+      updated_at: new Date().toISOString()
+    });
+    await manifest.save();
+    return manifest;
+  }
+
+  static async load(dir: string): Promise<RunManifest> {
+    const file = path.join(dir, MANIFEST_FILE);
+    if (!(await fs.pathExists(file))) {
+      throw new Error(`No ${MANIFEST_FILE} in ${dir}; only runs started with a manifest can be resumed`);
+    }
+    return new RunManifest(dir, JSON.parse(await fs.readFile(file, "utf-8")));
+  }
+
+  async save(): Promise<void> {
+    this.data.updated_at = new Date().toISOString();
+    await fs.writeFile(path.join(this.dir, MANIFEST_FILE), JSON.stringify(this.data, null, 2));
+  }
+
+  private key(file: string): string {
+    const relative = path.relative(this.dir, file);
+    return relative.startsWith("..") || path.isAbsolute(relative) ? path.resolve(file) : relative;
+  }
+
+  private resolve(key: string): string {
+    return path.isAbsolute(key) ? key : path.join(this.dir, key);
+  }
+
+  get(id: string): StageRecord | undefined {
+    return this.data.stages.find((stage) => stage.id === id);
+  }
+
+  /** A stage is fresh if it completed, its outputs exist, and its inputs are unchanged */
+  async isFresh(id: string): Promise<boolean> {
+    const record = this.get(id);
+    if (!record) return false;
+    for (const output of record.outputs) {
+      if (!(await fs.pathExists(this.resolve(output)))) return false;
+    }
+    for (const [input, hash] of Object.entries(record.inputs)) {
+      if ((await hashFile(this.resolve(input))) !== hash) return false;
+    }
+    return true;
+  }
+
+  /** Drop a stage and every stage recorded after it */
+  invalidateFrom(id: string): boolean {
+    const index = this.data.stages.findIndex((stage) => stage.id === id);
+    if (index === -1) return false;
+    this.data.stages = this.data.stages.slice(0, index);
+    return true;
+  }
+
+  /** Most recent stage id matching `name`, either exact ("c2.revise") or by stage name ("revise") */
+  findStage(name: string): string | null {
+    for (let i = this.data.stages.length - 1; i >= 0; i--) {
+      const id = this.data.stages[i].id;
+      if (id === name || id.split(".").pop() === name) return id;
+    }
+    return null;
+  }
+
+  async record(id: string, inputs: string[], outputs: string[], result?: unknown): Promise<void> {
+    this.invalidateFrom(id);
+    const hashed: Record<string, string> = {};
+    for (const input of inputs) {
+      hashed[this.key(input)] = (await hashFile(input)) ?? "";
+    }
+    this.data.stages.push({
+      id,
+      inputs: hashed,
+      outputs: outputs.map((output) => this.key(output)),
+      completed_at: new Date().toISOString(),
+      result
+    });
+    await this.save();
+  }
+}
@@ -0,0 +1,54 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+/** Short stable hash of the prompt pair, used to key fixtures and cassettes */
+export function promptHash(systemPrompt: string | undefined, userPrompt: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${systemPrompt ?? ""}\n---\n${userPrompt}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+const callCounts = new Map<string, number>();
+
+/**
+ * Scripted responses for `mock/<scenario>` models. Fixtures live in
+ * `$MOCK_FIXTURES_DIR/<scenario>/` (default `fixtures/`) and are looked up as:
+ *
+ * 1. `<role>/<prompt hash>.txt` - exact response for one prompt
+ * 2. `<role>.<n>.txt`           - response for the nth call with this role (1-based)
+ * 3. `<role>.txt`               - response for any call with this role
+ *
+ * Numbered fixtures make it easy to script a bad first answer followed by a
+ * good retry.
+ */
+export async function mockResponse(
+  scenario: string,
+  role: string,
+  systemPrompt: string | undefined,
+  userPrompt: string
+): Promise<string> {
+  const dir = path.resolve(process.env.MOCK_FIXTURES_DIR || "fixtures", scenario || "default");
+  const hash = promptHash(systemPrompt, userPrompt);
+  const countKey = `${dir}:${role}`;
+  const n = (callCounts.get(countKey) ?? 0) + 1;
+  callCounts.set(countKey, n);
+
+  const candidates = [
+    path.join(dir, role, `${hash}.txt`),
+    path.join(dir, `${role}.${n}.txt`),
+    path.join(dir, `${role}.txt`)
+  ];
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) {
+      return fs.readFile(candidate, "utf-8");
+    }
+  }
+
+  throw new Error(
+    `No mock fixture for role "${role}" (call ${n}, prompt hash ${hash}) in ${dir}. ` +
+      `Tried: ${candidates.map((c) => path.relative(dir, c)).join(", ")}`
+  );
+}
@@ -1,14 +1,30 @@
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
+import {
+  GoogleGenerativeAI,
+  HarmBlockThreshold,
+  HarmCategory,
+  ResponseSchema,
+  SafetySetting
+} from "@google/generative-ai";
+import { withCache } from "./cache";
+import { cassetteKey, readCassette, replayMode, writeCassette } from "./cassette";
+import { mockResponse } from "./mock-provider";
+import { JsonSchema, toGeminiSchema } from "./json-schema";
+import { compatName, getCompatClient, getCompatProvider } from "./providers";
+import { acquireSlot, withResilience } from "./resilience";
+import { recordUsage, TokenUsage } from "./usage";
 
 let openai: OpenAI | null = null;
 let anthropic: Anthropic | null = null;
 let openrouter: OpenAI | null = null;
+let google: GoogleGenerativeAI | null = null;
 
 function getOpenAI(): OpenAI {
   if (!openai) {
     openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
+      apiKey: process.env.OPENAI_API_KEY,
+      maxRetries: 0
     });
   }
   return openai;
@@ -17,7 +33,8 @@ function getOpenAI(): OpenAI {
 function getAnthropic(): Anthropic {
   if (!anthropic) {
     anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      maxRetries: 0
     });
   }
   return anthropic;
@@ -27,20 +44,66 @@ function getOpenRouter(): OpenAI {
   if (!openrouter) {
     openrouter = new OpenAI({
       apiKey: process.env.OPENROUTER_API_KEY,
-      baseURL: "https://openrouter.ai/api/v1"
+      baseURL: "https://openrouter.ai/api/v1",
+      maxRetries: 0
     });
   }
   return openrouter;
 }
 
+function getGoogle(): GoogleGenerativeAI {
+  if (!google) {
+    const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error("google/ models need GOOGLE_API_KEY (or GEMINI_API_KEY) to be set");
+    google = new GoogleGenerativeAI(apiKey);
+  }
+  return google;
+}
+
+/**
+ * Block threshold from GEMINI_SAFETY_THRESHOLD (e.g. BLOCK_ONLY_HIGH, BLOCK_NONE),
+ * applied to every harm category; unset keeps Google's defaults. Dark fiction
+ * trips the default filters more often than you'd expect.
+ */
+function geminiSafetySettings(): SafetySetting[] | undefined {
+  const threshold = process.env.GEMINI_SAFETY_THRESHOLD;
+  if (!threshold) return undefined;
+  if (!Object.values(HarmBlockThreshold).includes(threshold as HarmBlockThreshold)) {
+    throw new Error(
+      `Invalid GEMINI_SAFETY_THRESHOLD "${threshold}"; use one of ${Object.values(HarmBlockThreshold).join(", ")}`
+    );
+  }
+  return Object.values(HarmCategory)
+    .filter((category) => category !== HarmCategory.HARM_CATEGORY_UNSPECIFIED)
+    .map((category) => ({ category, threshold: threshold as HarmBlockThreshold }));
+}
+
 export interface ModelCall {
   model: string;
   systemPrompt?: string;
   userPrompt: string;
   temperature?: number;
   responseFormat?: "text" | "json";
+  /** Pipeline role making the call (writer, critique.a, aggregator, ...); keys mock fixtures */
+  role?: string;
+  /** Cache this call even if temperature > 0 (only applies when the response cache is enabled) */
+  cache?: boolean;
+  /** With responseFormat "json": schema for providers with a native structured-output mode */
+  jsonSchema?: { name: string; schema: JsonSchema };
+}
+
+export interface ModelResponse {
+  text: string;
+  /** Tokens reported by the provider; null for offline providers or SDKs that omit it */
+  usage: TokenUsage | null;
+  /** Model that actually answered (differs from the request when a fallback was used) */
+  model: string;
+  /** Served from the response cache or a cassette; nothing was spent */
+  cached: boolean;
 }
 
+type ProviderResponse = Omit<ModelResponse, "model" | "cached">;
+
 /**
  * Universal model caller - routes to appropriate provider based on model prefix
  *
@@ -48,9 +111,102 @@ export interface ModelCall {
  * - openai/gpt-4o-mini
  * - anthropic/claude-sonnet-4-5
  * - openrouter/deepseek/deepseek-chat
+ * - google/gemini-2.5-flash
+ * - local/<model>                        (the "local" endpoint in the providers config)
+ * - compat:<name>/<model>                (any OpenAI-compatible endpoint in the providers config)
+ * - mock/<scenario>                      (scripted fixtures, offline)
+ * - replay/<provider>/<model>            (cassette record/playback)
+ *
+ * Every live call goes through the retry/timeout/fallback layer (see
+ * ./resilience), which owns retries; the SDK clients' built-in retries are
+ * disabled. Offline providers skip it: a mock or a missing cassette fails the
+ * same way every time, and must never fall back to a live model. In record
+ * mode only the inner live call is resilient. Live providers also go through
+ * the opt-in response cache (see ./cache), keyed by the model that actually
+ * answered; offline providers never do. Token usage
+ * is returned with the text and appended to the run's usage ledger (see ./usage).
  */
-export async function callModel(call: ModelCall): Promise<string> {
-  const { model, systemPrompt, userPrompt, temperature = 0.7, responseFormat = "text" } = call;
+export async function callModel(call: ModelCall): Promise<ModelResponse> {
+  const response = await resilientCall(call);
+  await recordUsage(call.role ?? "default", response);
+  return response;
+}
+
+async function resilientCall(call: ModelCall): Promise<ModelResponse> {
+  const provider = call.model.split("/")[0];
+  if (provider === "replay") {
+    return replay(call);
+  }
+  if (provider === "mock") {
+    return { ...(await routeModel(call)), model: call.model, cached: false };
+  }
+  return withResilience(call.model, call.role ?? "default", (model, signal) => cachedRoute({ ...call, model }, signal));
+}
+
+/** Temperature a provider is actually sent: GPT-5 only supports 1, and the others run JSON calls at 0 */
+function sentTemperature(model: string, temperature: number, responseFormat: "text" | "json"): number {
+  const [provider, ...rest] = model.split("/");
+  if (provider === "openai") return rest.join("/").startsWith("gpt-5") ? 1 : temperature;
+  return responseFormat === "json" ? 0 : temperature;
+}
+
+/** Cache and cassette keys cover what is sent: the effective temperature and any schema name */
+function requestKeyParts(call: ModelCall, model: string) {
+  const { systemPrompt, userPrompt, temperature = 0.7, responseFormat = "text", jsonSchema } = call;
+  return {
+    systemPrompt,
+    userPrompt,
+    temperature: sentTemperature(model, temperature, responseFormat),
+    responseFormat,
+    ...(responseFormat === "json" && jsonSchema && { schemaName: jsonSchema.name })
+  };
+}
+
+async function cachedRoute(call: ModelCall, signal: AbortSignal): Promise<ModelResponse> {
+  const { model, role = "default" } = call;
+  const [provider, ...rest] = model.split("/");
+  const { response, cached } = await withCache(
+    { provider, model: rest.join("/"), ...requestKeyParts(call, model) },
+    role,
+    call.cache === true,
+    async () => {
+      await acquireSlot(provider);
+      return routeModel(call, signal);
+    }
+  );
+  return { ...response, model, cached };
+}
+
+/** Cassette playback costs nothing; in record mode the live call is accounted as usual */
+async function replay(call: ModelCall): Promise<ModelResponse> {
+  const { model, role = "default" } = call;
+  const modelName = model.split("/").slice(1).join("/");
+  const request = requestKeyParts(call, modelName);
+  const key = cassetteKey(modelName, request);
+  const recorded = await readCassette(key);
+  if (recorded) {
+    return { text: recorded.response, usage: recorded.usage ?? null, model, cached: true };
+  }
+  if (replayMode() !== "record") {
+    throw new Error(
+      `No cassette for ${modelName} (role ${role}, key ${key}). Re-run with REPLAY_MODE=record to capture it.`
+    );
+  }
+  const response = await resilientCall({ ...call, model: modelName });
+  await writeCassette({
+    key,
+    model: modelName,
+    role,
+    request,
+    response: response.text,
+    usage: response.usage,
+    recorded_at: new Date().toISOString()
+  });
+  return response;
+}
+
+async function routeModel(call: ModelCall, signal?: AbortSignal): Promise<ProviderResponse> {
+  const { model, systemPrompt, userPrompt, temperature = 0.7, responseFormat = "text", role = "default", jsonSchema } = call;
 
   // Parse provider from model string
   const parts = model.split("/");
@@ -60,9 +216,6 @@ export async function callModel(call: ModelCall): Promise<string> {
   // Route to appropriate provider
   switch (provider) {
     case "openai": {
-      // GPT-5 only supports temperature=1
-      const temp = modelName.startsWith("gpt-5") ? 1 : temperature;
-
       const messages: any[] = [];
       if (systemPrompt) {
         messages.push({ role: "system", content: systemPrompt });
@@ -72,28 +225,56 @@ export async function callModel(call: ModelCall): Promise<string> {
       const completion = await getOpenAI().chat.completions.create({
         model: modelName,
         messages,
-        temperature: temp
-      });
-      return completion.choices[0]?.message?.content || "";
+        temperature: sentTemperature(model, temperature, responseFormat),
+        ...(responseFormat === "json" && jsonSchema && {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: false }
+          }
+        })
+      }, { signal });
+      return {
+        text: completion.choices[0]?.message?.content || "",
+        usage: completion.usage
+          ? { input_tokens: completion.usage.prompt_tokens, output_tokens: completion.usage.completion_tokens }
+          : null
+      };
     }
 
     case "anthropic": {
+      // Claude has no JSON mode; a forced tool call gives schema-shaped output
+      const tool = responseFormat === "json" && jsonSchema;
       const response = await getAnthropic().messages.create({
         model: modelName,
         max_tokens: 4096,
-        temperature: responseFormat === "json" ? 0 : temperature,
+        temperature: sentTemperature(model, temperature, responseFormat),
         system: systemPrompt || "",
         messages: [
           {
             role: "user",
             content: userPrompt
           }
-        ]
-      });
+        ],
+        ...(tool && {
+          tools: [
+            {
+              name: jsonSchema.name,
+              description: `Return the ${jsonSchema.name} as structured data.`,
+              input_schema: jsonSchema.schema as Anthropic.Tool.InputSchema
+            }
+          ],
+          tool_choice: { type: "tool" as const, name: jsonSchema.name }
+        })
+      }, { signal });
 
+      const usage = { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens };
+      const toolUse = response.content.find((block) => block.type === "tool_use");
+      if (toolUse?.type === "tool_use") {
+        return { text: JSON.stringify(toolUse.input), usage };
+      }
       const content = response.content[0];
       if (content.type === "text") {
-        return content.text;
+        return { text: content.text, usage };
       }
       throw new Error("Unexpected response type from Anthropic");
     }
@@ -108,13 +289,81 @@ export async function callModel(call: ModelCall): Promise<string> {
       const completion = await getOpenRouter().chat.completions.create({
         model: modelName,
         messages,
-        temperature: responseFormat === "json" ? 0 : temperature,
+        temperature: sentTemperature(model, temperature, responseFormat),
         max_tokens: 4096
+      }, { signal });
+      return {
+        text: completion.choices[0]?.message?.content || "",
+        usage: completion.usage
+          ? { input_tokens: completion.usage.prompt_tokens, output_tokens: completion.usage.completion_tokens }
+          : null
+      };
+    }
+
+    case "google": {
+      const geminiSchema = jsonSchema ? toGeminiSchema(jsonSchema.schema) : null;
+      const generativeModel = getGoogle().getGenerativeModel({
+        model: modelName,
+        ...(systemPrompt && { systemInstruction: systemPrompt }),
+        safetySettings: geminiSafetySettings(),
+        generationConfig: {
+          temperature: sentTemperature(model, temperature, responseFormat),
+          maxOutputTokens: 4096,
+          ...(responseFormat === "json" && { responseMimeType: "application/json" }),
+          ...(responseFormat === "json" && geminiSchema && { responseSchema: geminiSchema as unknown as ResponseSchema })
+        }
       });
-      return completion.choices[0]?.message?.content || "";
+      const result = await generativeModel.generateContent(userPrompt, { signal });
+      const { response } = result;
+      const candidate = response.candidates?.[0];
+      if (!candidate || candidate.finishReason === "SAFETY" || response.promptFeedback?.blockReason) {
+        const reason = response.promptFeedback?.blockReason ?? candidate?.finishReason ?? "no candidates";
+        throw new Error(`Gemini blocked the response (${reason}); see GEMINI_SAFETY_THRESHOLD`);
+      }
+      return {
+        text: response.text(),
+        usage: response.usageMetadata
+          ? {
+              input_tokens: response.usageMetadata.promptTokenCount,
+              output_tokens: response.usageMetadata.candidatesTokenCount
+            }
+          : null
+      };
     }
 
-    default:
-      throw new Error(`Unknown provider: ${provider}. Use format: provider/model-name (openai/, anthropic/, openrouter/)`);
+    case "mock": {
+      return { text: await mockResponse(modelName, role, systemPrompt, userPrompt), usage: null };
+    }
+
+    case "local":
+    default: {
+      const name = compatName(provider);
+      if (!name) {
+        throw new Error(
+          `Unknown provider: ${provider}. Use format: provider/model-name ` +
+            `(openai/, anthropic/, openrouter/, google/, local/, compat:<name>/, mock/, replay/)`
+        );
+      }
+      const endpoint = getCompatProvider(name);
+      const messages: any[] = [];
+      if (systemPrompt) {
+        messages.push({ role: "system", content: systemPrompt });
+      }
+      messages.push({ role: "user", content: userPrompt });
+
+      const completion = await getCompatClient(name).chat.completions.create({
+        model: modelName,
+        messages,
+        temperature: sentTemperature(model, temperature, responseFormat),
+        max_tokens: endpoint.max_tokens,
+        ...(responseFormat === "json" && endpoint.json_mode && { response_format: { type: "json_object" as const } })
+      }, { signal });
+      return {
+        text: completion.choices[0]?.message?.content || "",
+        usage: completion.usage
+          ? { input_tokens: completion.usage.prompt_tokens, output_tokens: completion.usage.completion_tokens }
+          : null
+      };
+    }
   }
 }
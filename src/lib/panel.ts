@@ -0,0 +1,79 @@
+import * as path from "path";
+import { Judge, Panel, StoryBible } from "../schemas";
+import { loadYamlConfig } from "./config";
+
+export interface PanelOverrides {
+  judgeA?: string;
+  judgeB?: string;
+}
+
+/** Two-judge panel from JUDGE_A_MODEL / JUDGE_B_MODEL, used when no panel config is given */
+export function defaultPanel(overrides: PanelOverrides = {}): Panel {
+  return {
+    judges: [
+      {
+        id: "a",
+        model: overrides.judgeA || process.env.JUDGE_A_MODEL || "anthropic/claude-sonnet-4-5",
+        weight: 1
+      },
+      {
+        id: "b",
+        model: overrides.judgeB || process.env.JUDGE_B_MODEL || "openrouter/deepseek/deepseek-chat",
+        weight: 1
+      }
+    ]
+  };
+}
+
+/**
+ * `--panel` wins; otherwise the bible's `panel`, resolved relative to the
+ * bible file (`policies/panel.yaml` for a bible in config/); otherwise null,
+ * for the two-judge default
+ */
+export function resolvePanelPath(
+  cliPanel: string | undefined,
+  biblePath: string | undefined,
+  bible: StoryBible | null
+): string | null {
+  if (cliPanel) return cliPanel;
+  if (bible?.panel && biblePath) {
+    return path.resolve(path.dirname(biblePath), bible.panel);
+  }
+  return null;
+}
+
+export async function loadPanel(panelPath: string | null, overrides: PanelOverrides = {}): Promise<Panel> {
+  return panelPath ? loadYamlConfig(panelPath, Panel) : defaultPanel(overrides);
+}
+
+/** Judges that must raise an issue for it to survive aggregation; defaults to min(2, panel size) */
+export function quorum(panel: Panel): number {
+  return panel.quorum ?? Math.min(2, panel.judges.length);
+}
+
+export function judgeSystemPrompt(basePrompt: string, judge: Judge): string {
+  return judge.persona ? `${basePrompt}\n\nPersona:\n${judge.persona.trim()}` : basePrompt;
+}
+
+/** Judge id from an artifact name like `02-c1-critique_a.json` or `retell_claude.json` */
+export function judgeIdFromFile(file: string): string {
+  const base = path.basename(file, path.extname(file));
+  const match = base.match(/(?:critique|retell)_(.+)$/);
+  return match ? match[1] : base;
+}
+
+/**
+ * Judge ids cited in a must_fix evidence list ("a: quote", "claude:quote").
+ * Matching is case-insensitive so the aggregator's "A:" still counts for "a".
+ */
+export function citedJudges(evidence: string[], panel: Panel): Set<string> {
+  const ids = new Set(panel.judges.map((j) => j.id));
+  const cited = new Set<string>();
+  for (const item of evidence) {
+    const match = item.match(/^\s*([\w-]+)\s*:/);
+    if (match && ids.has(match[1].toLowerCase())) {
+      cited.add(match[1].toLowerCase());
+    }
+  }
+  return cited;
+}
@@ -0,0 +1,122 @@
+import { StoryBible } from "../schemas";
+import { beatAt, parseBeats } from "./lint";
+
+export interface PovLexicon {
+  /** Perception/cognition verbs that are hard violations after a first-person subject */
+  filter_verbs: string[];
+  /** Narrative-distance phrases flagged for review, matched case-insensitively on word boundaries */
+  distance_phrases: string[];
+  /** Phrases that are never flagged, even if they contain a filter construction */
+  allow: string[];
+}
+
+export interface PovFinding {
+  kind: "filter_word" | "distance";
+  severity: "hard" | "soft";
+  match: string;
+  start: number;
+  end: number;
+  beat: string | null;
+  sentence: string;
+}
+
+export const DEFAULT_POV_LEXICON: PovLexicon = {
+  filter_verbs: [
+    "saw", "see", "heard", "hear", "felt", "feel", "thought", "think",
+    "noticed", "notice", "realized", "realised", "realize", "realise"
+  ],
+  distance_phrases: [
+    "I wondered", "I knew", "I watched", "I sensed", "I smelled", "I tasted",
+    "I observed", "I remembered", "I decided", "I found myself",
+    "I began to", "I started to", "it seemed", "seemed to"
+  ],
+  allow: []
+};
+
+// Optional modal/adverb between subject and verb: "I could see", "I suddenly felt"
+const SUBJECT_GAP = "(?:(?:could|would|had|did|just|then|suddenly|still|almost|barely)\\s+){0,2}";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Default lexicon extended with the bible's `pov_lexicon`, if any */
+export function resolveLexicon(bible?: StoryBible | null): PovLexicon {
+  const extra = bible?.pov_lexicon;
+  return {
+    filter_verbs: [...DEFAULT_POV_LEXICON.filter_verbs, ...(extra?.filter_verbs ?? [])],
+    distance_phrases: [...DEFAULT_POV_LEXICON.distance_phrases, ...(extra?.distance_phrases ?? [])],
+    allow: [...DEFAULT_POV_LEXICON.allow, ...(extra?.allow ?? [])]
+  };
+}
+
+function sentenceAround(story: string, start: number, end: number): string {
+  const before = story.slice(0, start);
+  const boundary = Math.max(before.lastIndexOf("."), before.lastIndexOf("!"), before.lastIndexOf("?"),
+    before.lastIndexOf("\n"), before.lastIndexOf("]"));
+  const afterMatch = story.slice(end).search(/[.!?\n]/);
+  const sentenceEnd = afterMatch === -1 ? story.length : end + afterMatch + 1;
+  return story.slice(boundary + 1, sentenceEnd).trim();
+}
+
+/** Offsets of quoted speech ("…" or “…”), which may use filter words freely */
+function dialogueSpans(story: string): Array<[number, number]> {
+  return [...story.matchAll(/"[^"\n]*"|“[^”\n]*”/g)].map((match) => [match.index!, match.index! + match[0].length]);
+}
+
+/**
+ * Find filter words and narrative-distance constructions outside dialogue.
+ * Offsets index into the story as given (beat tags included) so findings can
+ * be mapped to beats.
+ */
+export function analyzePov(story: string, lexicon: PovLexicon = DEFAULT_POV_LEXICON): PovFinding[] {
+  const { segments } = parseBeats(story);
+  const dialogue = dialogueSpans(story);
+  const allowed = lexicon.allow.map((phrase) => phrase.toLowerCase());
+  const findings: PovFinding[] = [];
+
+  const collect = (pattern: RegExp, kind: PovFinding["kind"], severity: PovFinding["severity"]) => {
+    for (const match of story.matchAll(pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (dialogue.some(([from, to]) => start >= from && end <= to)) continue;
+      const sentence = sentenceAround(story, start, end);
+      if (allowed.some((phrase) => sentence.toLowerCase().includes(phrase))) continue;
+      if (findings.some((f) => start < f.end && end > f.start)) continue;
+      findings.push({ kind, severity, match: match[0], start, end, beat: beatAt(segments, start), sentence });
+    }
+  };
+
+  if (lexicon.filter_verbs.length) {
+    const verbs = lexicon.filter_verbs.map(escapeRegExp).join("|");
+    collect(new RegExp(`\\b(?:I|we)\\s+${SUBJECT_GAP}(?:${verbs})\\b`, "gi"), "filter_word", "hard");
+  }
+  for (const phrase of lexicon.distance_phrases) {
+    const pattern = escapeRegExp(phrase).replace(/\s+/g, "\\s+");
+    collect(new RegExp(`\\b${pattern}\\b`, "gi"), "distance", "soft");
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/** Whether a must_fix evidence list cites the local POV check ("pov: quote") */
+export function citesPov(evidence: string[]): boolean {
+  return evidence.some((item) => /^\s*pov\s*:/i.test(item));
+}
+
+/** Findings as critique confusions, skipping any a judge already quoted */
+export function povConfusions(
+  findings: PovFinding[],
+  existing: Array<{ quote: string }> = []
+): Array<{ quote: string; why: string; fix_hint: "line" }> {
+  const quoted = existing.map((c) => c.quote.toLowerCase());
+  return findings
+    .filter((f) => !quoted.some((q) => q.includes(f.match.toLowerCase())))
+    .map((f) => ({
+      quote: f.sentence,
+      why:
+        `[pov] ${f.kind === "filter_word" ? "Filter word" : "Narrative distance"} "${f.match}"` +
+        `${f.beat ? ` in ${f.beat}` : ""}; show the experience directly.`,
+      fix_hint: "line" as const
+    }));
+}
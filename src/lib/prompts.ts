@@ -0,0 +1,129 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { PromptName, StoryBible } from "../schemas";
+import { formLength, resolveForm } from "./forms";
+
+export const BUILTIN_PROMPTS_DIR = path.join(__dirname, "..", "prompts");
+
+/** Call roles (see ModelCall.role) and the template each one uses */
+export const ROLE_PROMPTS: Record<string, PromptName> = {
+  "bible-writer": "bible",
+  writer: "writer",
+  reviser: "revise",
+  "reviser.span": "revise_span",
+  critique: "focus_group",
+  aggregator: "aggregator",
+  retell: "retell",
+  title: "title",
+  "retell-compare": "retell_compare",
+  "seed-tagger": "tag_seed",
+  "revision-check": "verify_revision"
+};
+
+export const TEMPLATE_VARIABLES = [
+  "BIBLE_JSON",
+  "STORY",
+  "FORM",
+  "LENGTH",
+  "WORD_CAP",
+  "BEATS",
+  "BEAT_LIST",
+  "MUST_FIX_JSON",
+  "REVISION_PLAN_JSON",
+  "PRIOR_CRITIQUE"
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+export type TemplateVariables = Partial<Record<TemplateVariable, string>>;
+
+export interface ResolvedPrompt {
+  name: PromptName;
+  source: "bible" | "project" | "builtin";
+  path: string;
+  template: string;
+}
+
+/** Project-level prompt directory: $PROMPTS_DIR, else ./prompts */
+export function projectPromptsDir(): string {
+  return path.resolve(process.env.PROMPTS_DIR || "prompts");
+}
+
+/** Accept a template name ("focus_group") or a call role ("critique", "critique.b") */
+export function promptNameFor(roleOrName: string): PromptName {
+  const parsed = PromptName.safeParse(roleOrName);
+  if (parsed.success) return parsed.data;
+  const name = ROLE_PROMPTS[roleOrName] ?? ROLE_PROMPTS[roleOrName.split(".")[0]];
+  if (!name) {
+    const known = [...new Set([...Object.keys(ROLE_PROMPTS), ...PromptName.options])].join(", ");
+    throw new Error(`Unknown prompt or role "${roleOrName}" (known: ${known})`);
+  }
+  return name;
+}
+
+/**
+ * First match wins: the bible's `prompts.<name>` (relative to the bible file),
+ * then `<project prompts dir>/<name>.txt`, then the built-in template.
+ */
+export async function resolvePrompt(
+  name: PromptName,
+  bible?: StoryBible | null,
+  biblePath?: string
+): Promise<ResolvedPrompt> {
+  const override = bible?.prompts?.[name];
+  if (override) {
+    const file = path.resolve(biblePath ? path.dirname(biblePath) : ".", override);
+    if (!(await fs.pathExists(file))) {
+      throw new Error(`Bible prompt override ${name}: ${file} does not exist`);
+    }
+    return { name, source: "bible", path: file, template: await fs.readFile(file, "utf-8") };
+  }
+
+  const projectFile = path.join(projectPromptsDir(), `${name}.txt`);
+  if (await fs.pathExists(projectFile)) {
+    return { name, source: "project", path: projectFile, template: await fs.readFile(projectFile, "utf-8") };
+  }
+
+  const builtin = path.join(BUILTIN_PROMPTS_DIR, `${name}.txt`);
+  return { name, source: "builtin", path: builtin, template: await fs.readFile(builtin, "utf-8") };
+}
+
+/** Bible-derived variables; callers add STORY, plan and critique variables as they have them */
+export function bibleVariables(bible: StoryBible): TemplateVariables {
+  const form = resolveForm(bible);
+  return {
+    BIBLE_JSON: JSON.stringify(bible, null, 2),
+    FORM: form.label,
+    LENGTH: formLength(form),
+    WORD_CAP: String(form.word_cap),
+    BEATS: form.beats.map((beat) => `[${beat.name}]`).join(" "),
+    BEAT_LIST: form.beats.map((beat) => `[${beat.name} ${beat.budget}w]`).join(" ")
+  };
+}
+
+/** Plain-text summary of critiques for {{PRIOR_CRITIQUE}} */
+export function formatPriorCritique(
+  critiques: Array<{ id: string; critique: { confusions: Array<{ quote: string; why: string }> } }>
+): string {
+  return critiques
+    .map(({ id, critique }) => {
+      const lines = critique.confusions.map((c) => `- "${c.quote}": ${c.why}`);
+      return `Judge ${id}:\n${lines.length ? lines.join("\n") : "- (no confusions)"}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Substitute `{{VARIABLE}}` placeholders. A placeholder that isn't a known
+ * template variable is an error (usually a typo in an override); a known one
+ * with no value in this context renders empty.
+ */
+export function renderPrompt(prompt: ResolvedPrompt, variables: TemplateVariables): string {
+  return prompt.template.replace(/\{\{\s*([A-Z_]+)\s*\}\}/g, (_, name: string) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown template variable {{${name}}} in ${prompt.path} (available: ${TEMPLATE_VARIABLES.join(", ")})`
+      );
+    }
+    return (variables[name as TemplateVariable] ?? "").trim();
+  });
+}
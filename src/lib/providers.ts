@@ -0,0 +1,52 @@
+import OpenAI from "openai";
+import * as path from "path";
+import { CompatProvider, ProvidersConfig } from "../schemas";
+import { loadYamlConfig } from "./config";
+
+export const DEFAULT_PROVIDERS_FILE = path.join(__dirname, "..", "..", "config", "policies", "providers.yaml");
+
+let providers: ProvidersConfig = {};
+const clients = new Map<string, OpenAI>();
+
+export function configureProviders(config: ProvidersConfig): void {
+  providers = config;
+  clients.clear();
+}
+
+export async function loadProvidersConfig(file: string): Promise<ProvidersConfig> {
+  return loadYamlConfig(file, ProvidersConfig);
+}
+
+/** Registered endpoint for a model prefix: "local" → `local`, "compat:<name>" → `<name>`; null otherwise */
+export function compatName(prefix: string): string | null {
+  if (prefix === "local") return "local";
+  return prefix.startsWith("compat:") ? prefix.slice("compat:".length) : null;
+}
+
+export function getCompatProvider(name: string): CompatProvider {
+  const provider = providers[name];
+  if (!provider) {
+    const known = Object.keys(providers).join(", ") || "none";
+    throw new Error(
+      `No OpenAI-compatible provider "${name}" registered (known: ${known}). ` +
+        `Declare it in ${DEFAULT_PROVIDERS_FILE} or pass --providers.`
+    );
+  }
+  return provider;
+}
+
+export function getCompatClient(name: string): OpenAI {
+  const existing = clients.get(name);
+  if (existing) return existing;
+
+  const provider = getCompatProvider(name);
+  let apiKey = "not-needed";
+  if (provider.api_key_env) {
+    const value = process.env[provider.api_key_env];
+    if (!value) throw new Error(`Provider "${name}" needs $${provider.api_key_env} to be set`);
+    apiKey = value;
+  }
+  const client = new OpenAI({ apiKey, baseURL: provider.base_url, maxRetries: 0 });
+  clients.set(name, client);
+  return client;
+}
@@ -0,0 +1,240 @@
+import { z } from "zod";
+import { Critique, Plan, StoryBible } from "../schemas";
+import { formatRule, GateResult } from "./gate";
+import { DiffOp, wordDiff } from "./diff";
+import { formLength, resolveForm } from "./forms";
+import { locateQuote } from "./grounding";
+import { countWords } from "./lint";
+
+type CritiqueValue = z.infer<typeof Critique>;
+type PlanValue = z.infer<typeof Plan>;
+
+export interface QuoteMark {
+  quote: string;
+  kind: "confusion" | "strength";
+  judge: string;
+  note: string;
+}
+
+/** Everything the report shows; missing artifacts are null/empty and their sections say so */
+export interface ReportData {
+  runDir: string;
+  runIndex: string;
+  status: string;
+  title: string | null;
+  reason: string | null;
+  costUsd: number | null;
+  bible: StoryBible | null;
+  biblePath: string | null;
+  draft: string | null;
+  revisions: Array<{ cycle: number; file: string; text: string }>;
+  /** The story the latest cycle's critiques were written against */
+  critiqued: { file: string; text: string } | null;
+  critiques: Array<{ judge: string; critique: CritiqueValue }>;
+  /** Quote matching threshold for highlights (the gate policy's grounding.min_similarity) */
+  minSimilarity: number;
+  plan: PlanValue | null;
+  retells: Array<{ judge: string; retell: string }>;
+  gate: GateResult | null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Escape `text` and wrap each quoted span in a <mark>. Overlapping quotes are
+ * split into segments, each marked with every quote covering it; quotes that
+ * can't be found are returned so the report can list them separately.
+ */
+export function highlightQuotes(
+  text: string,
+  marks: QuoteMark[],
+  minSimilarity: number
+): { html: string; unmatched: QuoteMark[] } {
+  const placed: Array<QuoteMark & { start: number; end: number }> = [];
+  const unmatched: QuoteMark[] = [];
+  for (const mark of marks) {
+    const { start, end } = locateQuote(text, mark.quote, minSimilarity);
+    if (start !== null && end !== null) placed.push({ ...mark, start, end });
+    else unmatched.push(mark);
+  }
+
+  const boundaries = [...new Set([0, text.length, ...placed.flatMap((m) => [m.start, m.end])])].sort((x, y) => x - y);
+  let html = "";
+  for (let k = 0; k < boundaries.length - 1; k++) {
+    const [from, to] = [boundaries[k], boundaries[k + 1]];
+    const segment = escapeHtml(text.slice(from, to));
+    const covering = placed.filter((m) => m.start <= from && m.end >= to);
+    if (!covering.length) {
+      html += segment;
+      continue;
+    }
+    const kinds = new Set(covering.map((m) => m.kind));
+    const cls = kinds.size > 1 ? "both" : [...kinds][0];
+    const title = covering.map((m) => `${m.judge} (${m.kind}): ${m.note}`).join("\n");
+    html += `<mark class="${cls}" title="${escapeHtml(title)}">${segment}</mark>`;
+  }
+  return { html, unmatched };
+}
+
+function renderDiff(ops: DiffOp[]): string {
+  return ops
+    .map(({ op, text }) => {
+      if (op === "same") return escapeHtml(text);
+      const tag = op === "add" ? "ins" : "del";
+      return `<${tag}>${escapeHtml(text)}</${tag}>`;
+    })
+    .join("");
+}
+
+function list(items: string[]): string {
+  return items.length ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>` : "<p class=\"muted\">None.</p>";
+}
+
+function missing(what: string): string {
+  return `<p class="muted">No ${escapeHtml(what)} in this run.</p>`;
+}
+
+function bibleSection(data: ReportData): string {
+  const bible = data.bible;
+  if (!bible) return missing("bible (the run's bible path could not be read)");
+  const form = resolveForm(bible);
+  const rows: Array<[string, string]> = [
+    ["Premise", bible.premise],
+    ["POV / tense", `${bible.pov}, ${bible.tense}`],
+    ["Voice", bible.voice],
+    ["Theme", bible.theme],
+    ["Form", `${form.label} (${formLength(form)})`],
+    ["Beats", form.beats.map((beat) => `${beat.name} ${beat.budget}w`).join(" · ")]
+  ];
+  return `
+    ${data.biblePath ? `<p class="muted">${escapeHtml(data.biblePath)}</p>` : ""}
+    <table>${rows.map(([k, v]) => `<tr><th>${k}</th><td>${escapeHtml(v)}</td></tr>`).join("")}</table>
+    <div class="columns">
+      <div><h3>Must include</h3>${list(bible.must_include)}</div>
+      <div><h3>Off limits</h3>${list(bible.off_limits)}</div>
+      <div><h3>Constraints</h3>${list(bible.constraints)}</div>
+    </div>`;
+}
+
+function gateSection(data: ReportData): string {
+  const gate = data.gate;
+  const verdict = data.status === "published"
+    ? `<p class="verdict pass">Published${data.title ? `: “${escapeHtml(data.title)}”` : ""}</p>`
+    : `<p class="verdict fail">Not published${data.reason ? ` — ${escapeHtml(data.reason)}` : ""}</p>`;
+  if (!gate) return verdict + missing("gate result");
+  const rules = gate.rules
+    .map((rule) => `<tr class="${rule.pass ? "pass" : "fail"}"><td>${rule.pass ? "✓" : "✗"}</td><td>${escapeHtml(formatRule(rule))}</td><td>${rule.skipped ? "skipped (input unavailable)" : ""}</td></tr>`)
+    .join("");
+  const retell = gate.retell
+    ? `<p>Retell agreement: ${gate.retell.match ? "match" : "no match"} (score ${gate.retell.score.toFixed(3)})</p>`
+    : "";
+  return `${verdict}
+    <p class="muted">Thresholds from ${escapeHtml(gate.threshold_source)}; ${gate.total_confusions} confusion(s) in total.</p>
+    <table>${Object.entries(gate.averages).map(([k, v]) => `<tr><th>${k}</th><td>${Number(v).toFixed(2)}</td></tr>`).join("")}</table>
+    ${retell}
+    <table class="rules">${rules}</table>`;
+}
+
+function planSection(plan: PlanValue | null): string {
+  if (!plan) return missing("plan");
+  const mustFix = plan.must_fix.length
+    ? `<ol>${plan.must_fix
+        .map((item) => `<li><span class="tag">${item.type}</span> ${escapeHtml(item.issue)}${list(item.evidence)}</li>`)
+        .join("")}</ol>`
+    : "<p class=\"muted\">No must-fix items.</p>";
+  const steps = plan.revision_plan
+    .map((step) => `<tr><td>${escapeHtml(step.action)}</td><td><q>${escapeHtml(step.target_span)}</q></td><td>${escapeHtml(step.success_metric)}</td></tr>`)
+    .join("");
+  return `<h3>Must fix</h3>${mustFix}
+    <h3>Revision plan</h3>
+    <table><tr><th>Action</th><th>Target span</th><th>Success metric</th></tr>${steps}</table>
+    <h3>Optional</h3>${list(plan.optional)}`;
+}
+
+function critiqueSection(data: ReportData): string {
+  if (!data.critiques.length) return missing("critiques");
+  const marks: QuoteMark[] = data.critiques.flatMap(({ judge, critique }) => [
+    ...critique.confusions.map((c) => ({ quote: c.quote, kind: "confusion" as const, judge, note: c.why })),
+    ...critique.strengths.map((s) => ({ quote: s.quote, kind: "strength" as const, judge, note: s.why }))
+  ]);
+  const highlighted = data.critiqued ? highlightQuotes(data.critiqued.text, marks, data.minSimilarity) : null;
+  const story = highlighted
+    ? `<p class="muted">Quotes highlighted on ${escapeHtml(data.critiqued!.file)}: <mark class="confusion">confusion</mark> <mark class="strength">strength</mark> (hover for the judge's note)</p>
+       <div class="story">${highlighted.html}</div>
+       ${highlighted.unmatched.length ? `<h3>Quotes not found in the story</h3>${list(highlighted.unmatched.map((m) => `${m.judge} (${m.kind}): “${m.quote}” — ${m.note}`))}` : ""}`
+    : "";
+  const judges = data.critiques
+    .map(({ judge, critique }) => `
+      <div class="card">
+        <h3>Judge ${escapeHtml(judge)}</h3>
+        <p>${Object.entries(critique.ratings).map(([k, v]) => `${k} <b>${v}</b>`).join(" · ")}</p>
+        <p><b>Retell:</b> ${escapeHtml(critique.retell)}</p>
+        <p><b>Stakes:</b> ${escapeHtml(critique.stakes)}</p>
+        <h4>Confusions</h4>${list(critique.confusions.map((c) => `“${c.quote}” — ${c.why}`))}
+        <h4>Strengths</h4>${list(critique.strengths.map((s) => `“${s.quote}” — ${s.why}`))}
+      </div>`)
+    .join("");
+  return `${story}<div class="columns">${judges}</div>`;
+}
+
+function revisionsSection(data: ReportData): string {
+  if (!data.draft) return missing("draft");
+  if (!data.revisions.length) return missing("revisions");
+  return data.revisions
+    .map(({ cycle, file, text }) => `
+      <h3>Cycle ${cycle}: 01-draft.md → ${escapeHtml(file)} <span class="muted">(${countWords(data.draft!)} → ${countWords(text)} words)</span></h3>
+      <div class="story">${renderDiff(wordDiff(data.draft!, text))}</div>`)
+    .join("");
+}
+
+function retellSection(data: ReportData): string {
+  if (!data.retells.length) return missing("retells");
+  return `<div class="columns">${data.retells
+    .map(({ judge, retell }) => `<div class="card"><h3>Judge ${escapeHtml(judge)}</h3><p>${escapeHtml(retell)}</p></div>`)
+    .join("")}</div>`;
+}
+
+const STYLE = `
+  body { font: 15px/1.5 system-ui, sans-serif; max-width: 1100px; margin: 2em auto; padding: 0 1em; color: #222; }
+  h1 { margin-bottom: 0; } h2 { border-bottom: 1px solid #ddd; padding-bottom: .2em; margin-top: 2em; }
+  table { border-collapse: collapse; margin: .5em 0; } th, td { text-align: left; padding: .25em .6em; vertical-align: top; border-bottom: 1px solid #eee; }
+  .muted { color: #777; } .tag { font-size: 12px; background: #eee; border-radius: 3px; padding: 0 .4em; }
+  .story { white-space: pre-wrap; font-family: Georgia, serif; background: #fafafa; border: 1px solid #eee; padding: 1em; }
+  .columns { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 1em; }
+  .card { border: 1px solid #e5e5e5; border-radius: 6px; padding: 0 1em; }
+  mark.confusion { background: #ffd6d6; } mark.strength { background: #d6f5d6; } mark.both { background: #ffe9a8; }
+  ins { background: #d6f5d6; text-decoration: none; } del { background: #ffd6d6; color: #900; }
+  .verdict { font-size: 1.2em; font-weight: bold; } .pass { color: #17702b; } .fail { color: #a11; }
+  .rules td { border: none; padding: .1em .6em; }
+`;
+
+/** Self-contained HTML page (inline CSS, no scripts or external assets) */
+export function renderReport(data: ReportData): string {
+  const heading = data.title ?? `Run ${data.runIndex}`;
+  const cost = data.costUsd === null ? "" : ` · $${data.costUsd.toFixed(4)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(heading)} — run report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(heading)}</h1>
+<p class="muted">Run ${escapeHtml(data.runIndex)} · ${escapeHtml(data.status)}${cost} · ${escapeHtml(data.runDir)}</p>
+<h2>Gate</h2>${gateSection(data)}
+<h2>Bible</h2>${bibleSection(data)}
+<h2>Plan</h2>${planSection(data.plan)}
+<h2>Critiques</h2>${critiqueSection(data)}
+<h2>Revisions</h2>${revisionsSection(data)}
+<h2>Retells</h2>${retellSection(data)}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,238 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { ResiliencePolicy } from "../schemas";
+import { loadYamlConfig } from "./config";
+import { runContext } from "./run-context";
+
+export interface AttemptRecord {
+  ts: string;
+  role: string;
+  model: string;
+  /** 1-based attempt number for this model */
+  attempt: number;
+  outcome: "ok" | "error" | "timeout" | "circuit_open";
+  duration_ms: number;
+  status?: number;
+  error?: string;
+  /** Delay before the next attempt on the same model, if one follows */
+  retry_in_ms?: number;
+  /** Set when this model was tried because an earlier one in the fallback chain failed */
+  fallback_for?: string;
+}
+
+/** Thrown when a single attempt exceeds the role's timeout */
+export class ModelTimeoutError extends Error {
+  constructor(public model: string, public timeoutMs: number) {
+    super(`${model} did not respond within ${timeoutMs}ms`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 180_000;
+
+let policy: ResiliencePolicy = ResiliencePolicy.parse({});
+
+interface BreakerState {
+  failures: number;
+  openedAt: number | null;
+}
+const breakers = new Map<string, BreakerState>();
+/** Next free request slot per provider (epoch ms) */
+const nextSlot = new Map<string, number>();
+
+export function configureResilience(next: ResiliencePolicy): void {
+  policy = next;
+}
+
+/** Override or add per-provider requests-per-minute limits (e.g. from `batch --rate-limit`) */
+export function configureRateLimits(limits: Record<string, number>): void {
+  policy = { ...policy, rate_limits: { ...policy.rate_limits, ...limits } };
+}
+
+/**
+ * Wait for the provider's next request slot. Slots are reserved synchronously
+ * and spaced 60s / rpm apart, so concurrent callers queue fairly.
+ */
+export async function acquireSlot(provider: string): Promise<void> {
+  const rpm = policy.rate_limits[provider];
+  if (!rpm) return;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(provider) ?? 0);
+  nextSlot.set(provider, slot + 60_000 / rpm);
+  if (slot > now) await sleep(slot - now);
+}
+
+export async function loadResiliencePolicy(file: string): Promise<ResiliencePolicy> {
+  return loadYamlConfig(file, ResiliencePolicy);
+}
+
+/** Append every attempt in the current run to `file` (JSONL); null turns logging off */
+export function setAttemptLog(file: string | null): void {
+  runContext().attemptLog = file;
+}
+
+/** Exact role ("critique.b"), then its family ("critique"), then `fallback` */
+function lookup<T>(table: Record<string, T>, role: string, fallback: T): T {
+  return table[role] ?? table[role.split(".")[0]] ?? fallback;
+}
+
+export function timeoutFor(role: string): number {
+  return lookup(policy.timeouts_ms, role, policy.timeouts_ms.default ?? DEFAULT_TIMEOUT_MS);
+}
+
+export function fallbacksFor(role: string): string[] {
+  return lookup(policy.fallbacks, role, []);
+}
+
+function statusOf(err: any): number | undefined {
+  return typeof err?.status === "number" ? err.status : undefined;
+}
+
+/** Rate limits, server errors, timeouts and network failures are worth retrying; bad requests are not */
+export function isRetryable(err: any): boolean {
+  if (err instanceof ModelTimeoutError) return true;
+  const status = statusOf(err);
+  if (status !== undefined) return status === 408 || status === 409 || status === 429 || status >= 500;
+  const code = err?.code ?? err?.cause?.code;
+  if (["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"].includes(code)) return true;
+  return /APIConnection|fetch failed|socket hang up/i.test(`${err?.name} ${err?.message}`);
+}
+
+/** Delay requested by the provider via `retry-after-ms` / `retry-after` (seconds or HTTP date) */
+export function retryAfterMs(err: any): number | null {
+  const headers = err?.headers;
+  if (!headers) return null;
+  const get = (name: string): string | null | undefined =>
+    typeof headers.get === "function" ? headers.get(name) : headers[name];
+
+  const ms = Number(get("retry-after-ms"));
+  if (Number.isFinite(ms) && ms >= 0 && get("retry-after-ms") != null) return ms;
+  const value = get("retry-after");
+  if (value == null) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with full jitter, capped at `max_delay_ms` */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(policy.max_delay_ms, policy.base_delay_ms * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function breakerOpen(provider: string): boolean {
+  const state = breakers.get(provider);
+  if (!state?.openedAt) return false;
+  if (Date.now() - state.openedAt >= policy.circuit_breaker.cooldown_ms) {
+    // Half-open: let one attempt through; a failure re-opens immediately
+    state.openedAt = null;
+    state.failures = policy.circuit_breaker.failure_threshold - 1;
+    return false;
+  }
+  return true;
+}
+
+function recordOutcome(provider: string, ok: boolean): void {
+  const state = breakers.get(provider) ?? { failures: 0, openedAt: null };
+  state.failures = ok ? 0 : state.failures + 1;
+  if (!ok && state.failures >= policy.circuit_breaker.failure_threshold) {
+    state.openedAt = Date.now();
+  }
+  breakers.set(provider, state);
+}
+
+async function logAttempt(record: AttemptRecord): Promise<void> {
+  const { attemptLog } = runContext();
+  if (!attemptLog) return;
+  await fs.ensureDir(path.dirname(attemptLog));
+  await fs.appendFile(attemptLog, JSON.stringify(record) + "\n");
+}
+
+/** Run one attempt with a signal that aborts the provider request when the timeout fires */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, model: string, ms: number): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ModelTimeoutError(model, ms);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Call `attempt` for the primary model and then each fallback configured for
+ * the role. Each model gets `retries` extra attempts on retryable errors,
+ * waiting for the provider's Retry-After when given (moving on to the next
+ * model if that exceeds `max_delay_ms`) and exponential backoff otherwise.
+ * Providers whose circuit breaker is open are skipped. `attempt` gets a
+ * signal to pass to the provider SDK, aborted when the attempt times out.
+ */
+export async function withResilience<T>(
+  model: string,
+  role: string,
+  attempt: (model: string, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const candidates = [...new Set([model, ...fallbacksFor(role)])];
+  const failures: Array<{ model: string; error: any }> = [];
+  const timeoutMs = timeoutFor(role);
+
+  for (const candidate of candidates) {
+    const provider = candidate.split("/")[0];
+    const fallbackFor = candidate === model ? undefined : model;
+
+    if (breakerOpen(provider)) {
+      const error = new Error(`circuit open for provider ${provider}`);
+      failures.push({ model: candidate, error });
+      await logAttempt({
+        ts: new Date().toISOString(), role, model: candidate, attempt: 0, outcome: "circuit_open",
+        duration_ms: 0, error: error.message, fallback_for: fallbackFor
+      });
+      continue;
+    }
+
+    for (let n = 1; n <= policy.retries + 1; n++) {
+      const started = Date.now();
+      try {
+        const response = await withTimeout((signal) => attempt(candidate, signal), candidate, timeoutMs);
+        recordOutcome(provider, true);
+        await logAttempt({
+          ts: new Date().toISOString(), role, model: candidate, attempt: n, outcome: "ok",
+          duration_ms: Date.now() - started, fallback_for: fallbackFor
+        });
+        return response;
+      } catch (err: any) {
+        const retryable = isRetryable(err);
+        if (retryable) recordOutcome(provider, false);
+
+        const requested = retryAfterMs(err);
+        const canRetry = retryable && n <= policy.retries && !breakerOpen(provider) &&
+          (requested === null || requested <= policy.max_delay_ms);
+        const delay = canRetry ? requested ?? backoffDelay(n) : undefined;
+
+        await logAttempt({
+          ts: new Date().toISOString(), role, model: candidate, attempt: n,
+          outcome: err instanceof ModelTimeoutError ? "timeout" : "error",
+          duration_ms: Date.now() - started, status: statusOf(err), error: err?.message ?? String(err),
+          retry_in_ms: delay, fallback_for: fallbackFor
+        });
+
+        if (delay === undefined) {
+          failures.push({ model: candidate, error: err });
+          break;
+        }
+        await sleep(delay);
+      }
+    }
+  }
+
+  // A single model that failed outright keeps its original error
+  if (failures.length === 1) throw failures[0].error;
+  const summary = failures.map((f) => `${f.model}: ${f.error?.message ?? f.error}`).join("; ");
+  throw new Error(`All models failed for role ${role} (${summary})`);
+}
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { GatePolicy, RetellVerdict } from "../schemas";
+import { callStructured } from "./structured";
+
+export interface StrategyResult {
+  strategy: "lexical" | "llm";
+  score: number;
+  threshold: number;
+  pass: boolean;
+  rationale: string;
+  model?: string;
+}
+
+export interface RetellComparison {
+  match: boolean;
+  /** Lowest strategy score; every strategy must pass for a match */
+  score: number;
+  strategies: StrategyResult[];
+}
+
+const STOPWORDS = new Set(
+  ("a an the and or but if then so of to in on at by for with from into onto over under " +
+    "as is are was were be been being it its this that these those there their they them " +
+    "he him his she her hers i me my we our you your who whom which what when where while " +
+    "after before until about out up down off just only also not no yet still very").split(" ")
+);
+
+/** Crude stem: drop common suffixes, then truncate so "forgets"/"forgetting" meet */
+function stem(word: string): string {
+  if (word.length <= 3) return word;
+  const stripped = word.replace(/(?:ing|ed|es|s|e)$/, "");
+  return (stripped.length >= 3 ? stripped : word).slice(0, 6);
+}
+
+function contentWords(text: string): Set<string> {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  return new Set(tokens.filter((t) => !STOPWORDS.has(t)).map(stem));
+}
+
+/** Capitalized words that don't start a sentence, plus numbers */
+function entities(text: string): Set<string> {
+  const found = new Set<string>();
+  for (const match of text.matchAll(/(?<![.!?]\s|^)\b([A-Z][\p{L}'-]+|\d+)/gu)) {
+    found.add(match[1].toLowerCase());
+  }
+  return found;
+}
+
+function overlap(a: Set<string>, b: Set<string>) {
+  const shared = [...a].filter((x) => b.has(x));
+  return {
+    shared,
+    onlyA: [...a].filter((x) => !b.has(x)),
+    onlyB: [...b].filter((x) => !a.has(x))
+  };
+}
+
+/**
+ * Local similarity: Dice overlap of stemmed content words, blended with
+ * entity (names, numbers) overlap when either retell mentions any.
+ */
+export function lexicalSimilarity(a: string, b: string, threshold: number): StrategyResult {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  const words = overlap(wordsA, wordsB);
+  const dice = wordsA.size + wordsB.size === 0 ? 1 : (2 * words.shared.length) / (wordsA.size + wordsB.size);
+
+  const entitiesA = entities(a);
+  const entitiesB = entities(b);
+  const ents = overlap(entitiesA, entitiesB);
+  const union = new Set([...entitiesA, ...entitiesB]).size;
+  const score = union === 0 ? dice : 0.7 * dice + 0.3 * (ents.shared.length / union);
+
+  const list = (items: string[]) => items.slice(0, 6).join(", ") || "none";
+  return {
+    strategy: "lexical",
+    score: Number(score.toFixed(3)),
+    threshold,
+    pass: score >= threshold,
+    rationale: `shared: ${list(words.shared)}; only A: ${list(words.onlyA)}; only B: ${list(words.onlyB)}`
+  };
+}
+
+/** Ask a model whether the two retells describe the same events */
+export async function llmAdjudicate(
+  a: string,
+  b: string,
+  model: string,
+  systemPrompt: string,
+  minConfidence: number
+): Promise<StrategyResult> {
+  const { value: verdict } = await callStructured<z.infer<typeof RetellVerdict>>({
+    model,
+    systemPrompt,
+    userPrompt: `Retell A:\n${a}\n\nRetell B:\n${b}`,
+    temperature: 0,
+    role: "retell-compare",
+    schema: RetellVerdict,
+    schemaName: "retell_verdict"
+  });
+  const score = verdict.same_events ? verdict.confidence : 1 - verdict.confidence;
+  return {
+    strategy: "llm",
+    model,
+    score: Number(score.toFixed(3)),
+    threshold: minConfidence,
+    pass: verdict.same_events && verdict.confidence >= minConfidence,
+    rationale: verdict.rationale
+  };
+}
+
+export async function compareRetells(
+  a: string,
+  b: string,
+  policy: GatePolicy["retell"],
+  options: { adjudicatorModel: string; adjudicatorPrompt: string }
+): Promise<RetellComparison> {
+  const strategies: StrategyResult[] = [];
+  for (const strategy of policy.strategies) {
+    if (strategy === "lexical") {
+      strategies.push(lexicalSimilarity(a, b, policy.min_similarity));
+    } else {
+      strategies.push(
+        await llmAdjudicate(
+          a,
+          b,
+          policy.adjudicator_model || options.adjudicatorModel,
+          options.adjudicatorPrompt,
+          policy.min_confidence
+        )
+      );
+    }
+  }
+  return {
+    match: strategies.every((s) => s.pass),
+    score: Math.min(...strategies.map((s) => s.score)),
+    strategies
+  };
+}
+
+export interface PanelRetellComparison {
+  match: boolean;
+  /** Lowest pairwise score */
+  score: number;
+  pairs: Array<RetellComparison & { a: string; b: string }>;
+}
+
+/**
+ * The strategies a gate actually runs: the paid LLM adjudicator only when retell
+ * agreement can fail the gate, otherwise just the lexical score as metadata
+ */
+export function activeRetellPolicy(policy: GatePolicy): GatePolicy["retell"] {
+  if (policy.require_retell_match) return policy.retell;
+  const strategies = policy.retell.strategies.filter((s) => s !== "llm");
+  return { ...policy.retell, strategies: strategies.length ? strategies : ["lexical"] };
+}
+
+/** Compare every pair of judge retells; the panel agrees only if every pair matches */
+export async function comparePanelRetells(
+  retells: Array<{ id: string; retell: string }>,
+  policy: GatePolicy["retell"],
+  options: { adjudicatorModel: string; adjudicatorPrompt: string }
+): Promise<PanelRetellComparison> {
+  const pairs: PanelRetellComparison["pairs"] = [];
+  for (let i = 0; i < retells.length; i++) {
+    for (let j = i + 1; j < retells.length; j++) {
+      const comparison = await compareRetells(retells[i].retell, retells[j].retell, policy, options);
+      pairs.push({ a: retells[i].id, b: retells[j].id, ...comparison });
+    }
+  }
+  return {
+    match: pairs.every((p) => p.match),
+    score: pairs.length ? Math.min(...pairs.map((p) => p.score)) : 1,
+    pairs
+  };
+}
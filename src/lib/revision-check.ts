@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { Plan, RevisionVerdicts } from "../schemas";
+import { diffHunks, DiffHunk } from "./diff";
+import { locateQuote } from "./grounding";
+import { beatAt, countWords, parseBeats, sentenceRange } from "./lint";
+import { callStructured } from "./structured";
+
+type PlanValue = z.infer<typeof Plan>;
+
+export type ItemStatus = "addressed" | "untouched" | "unclear";
+
+export interface CheckedSpan {
+  quote: string;
+  /** Offsets into the story before revision; null when the span could not be found */
+  start: number | null;
+  end: number | null;
+  beat: string | null;
+  changed: boolean;
+}
+
+export interface CheckedItem {
+  /** "must_fix[0]", "revision_plan[2]" */
+  id: string;
+  text: string;
+  success_metric: string | null;
+  spans: CheckedSpan[];
+  /** Verdict from the diff alone */
+  local: ItemStatus;
+  llm: { met: boolean; rationale: string } | null;
+  status: ItemStatus;
+  reason: string;
+}
+
+/** A change outside every targeted sentence */
+export interface CollateralChange extends DiffHunk {
+  beat: string | null;
+}
+
+export interface RevisionCheck {
+  items: CheckedItem[];
+  collateral: CollateralChange[];
+  summary: Record<ItemStatus, number> & { changed_words: number; collateral_words: number };
+  llm_model: string | null;
+}
+
+/** Drop the aggregator's "<judge id>:" prefix from a must_fix evidence quote */
+export function evidenceQuote(evidence: string): string {
+  return evidence.replace(/^\s*[\w-]+\s*:\s*/, "");
+}
+
+function overlaps(hunk: DiffHunk, start: number, end: number): boolean {
+  return hunk.start === hunk.end ? hunk.start >= start && hunk.start <= end : hunk.start < end && hunk.end > start;
+}
+
+function hunkWords(hunk: DiffHunk): number {
+  return Math.max(countWords(hunk.removed), countWords(hunk.added));
+}
+
+/**
+ * Compare the story before and after revision against the plan. Each
+ * must_fix item (via its evidence quotes) and revision_plan item (via its
+ * target_span) is addressed when a located span changed, untouched when none
+ * did, and unclear when its spans can't be found. Changes outside every
+ * targeted sentence are reported as collateral.
+ */
+export function checkRevision(before: string, after: string, plan: PlanValue, minSimilarity: number): RevisionCheck {
+  const hunks = diffHunks(before, after);
+  const { segments } = parseBeats(before);
+  const targeted: Array<[number, number]> = [];
+
+  const check = (id: string, text: string, successMetric: string | null, quotes: string[]): CheckedItem => {
+    const spans = quotes.map((quote): CheckedSpan => {
+      const found = locateQuote(before, quote, minSimilarity);
+      if (found.start === null || found.end === null) {
+        return { quote, start: null, end: null, beat: null, changed: false };
+      }
+      const [from, to] = sentenceRange(before, found.start, found.end);
+      targeted.push([from, to]);
+      return {
+        quote,
+        start: found.start,
+        end: found.end,
+        beat: found.beat,
+        changed: hunks.some((hunk) => overlaps(hunk, from, to))
+      };
+    });
+    const located = spans.filter((span) => span.start !== null);
+    const local: ItemStatus = !located.length ? "unclear" : located.some((span) => span.changed) ? "addressed" : "untouched";
+    const reason = {
+      addressed: "targeted text was rewritten",
+      untouched: "targeted text is unchanged",
+      unclear: quotes.length ? "targeted text not found in the story" : "item names no span to check"
+    }[local];
+    return { id, text, success_metric: successMetric, spans, local, llm: null, status: local, reason };
+  };
+
+  const items = [
+    ...plan.must_fix.map((item, i) => check(`must_fix[${i}]`, item.issue, null, item.evidence.map(evidenceQuote))),
+    ...plan.revision_plan.map((step, i) =>
+      check(`revision_plan[${i}]`, step.action, step.success_metric, [step.target_span])
+    )
+  ];
+
+  const collateral = hunks
+    .filter((hunk) => !targeted.some(([from, to]) => overlaps(hunk, from, to)))
+    .map((hunk) => ({ ...hunk, beat: beatAt(segments, hunk.start) }));
+
+  const changedWords = hunks.reduce((sum, hunk) => sum + hunkWords(hunk), 0);
+  return { items, collateral, summary: summarize(items, collateral, changedWords), llm_model: null };
+}
+
+function summarize(items: CheckedItem[], collateral: CollateralChange[], changedWords: number): RevisionCheck["summary"] {
+  const count = (status: ItemStatus) => items.filter((item) => item.status === status).length;
+  return {
+    addressed: count("addressed"),
+    untouched: count("untouched"),
+    unclear: count("unclear"),
+    changed_words: changedWords,
+    collateral_words: collateral.reduce((sum, hunk) => sum + hunkWords(hunk), 0)
+  };
+}
+
+/**
+ * Fold in a model's judgement of each item's success metric. The diff and the
+ * model have to agree for an item to stay addressed or untouched; where they
+ * disagree the item becomes unclear, and an item the diff couldn't place
+ * takes the model's verdict.
+ */
+export function applyVerdicts(
+  check: RevisionCheck,
+  verdicts: z.infer<typeof RevisionVerdicts>,
+  model: string
+): RevisionCheck {
+  const items = check.items.map((item): CheckedItem => {
+    const verdict = verdicts.items.find((v) => v.id === item.id);
+    if (!verdict) return item;
+    const llm = { met: verdict.met, rationale: verdict.rationale };
+    const status: ItemStatus =
+      item.local === "unclear"
+        ? verdict.met ? "addressed" : "untouched"
+        : (item.local === "addressed") === verdict.met ? item.local : "unclear";
+    const reason =
+      status === item.local
+        ? item.reason
+        : `${item.reason}, but the checker says the goal was ${verdict.met ? "" : "not "}met: ${verdict.rationale}`;
+    return { ...item, llm, status, reason };
+  });
+  const summary = summarize(items, check.collateral, check.summary.changed_words);
+  return { ...check, items, summary, llm_model: model };
+}
+
+/** Ask a model whether each item's goal (its success_metric, else its description) is met by the revision */
+export async function llmCheckRevision(
+  before: string,
+  after: string,
+  check: RevisionCheck,
+  model: string,
+  systemPrompt: string
+): Promise<RevisionCheck> {
+  const checklist = check.items.map((item) => ({ id: item.id, item: item.text, success_metric: item.success_metric }));
+  const { value } = await callStructured<z.infer<typeof RevisionVerdicts>>({
+    model,
+    systemPrompt,
+    userPrompt: `Before:\n${before}\n\nAfter:\n${after}\n\nChecklist:\n${JSON.stringify(checklist, null, 2)}`,
+    temperature: 0,
+    role: "revision-check",
+    schema: RevisionVerdicts,
+    schemaName: "revision_verdicts"
+  });
+  return applyVerdicts(check, value, model);
+}
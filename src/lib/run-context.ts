@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from "async_hooks";
+import * as fs from "fs";
+import { format } from "util";
+
+/**
+ * Per-run state that library code needs while a run is executing. Each run
+ * executes inside its own context so concurrent runs (batch mode) keep their
+ * attempt logs, usage ledgers, stage attribution and console output apart.
+ */
+export interface RunContext {
+  /** JSONL log of every model attempt (see ./resilience) */
+  attemptLog: string | null;
+  /** JSONL usage ledger (see ./usage) */
+  usageLog: string | null;
+  /** Stage id calls are attributed to ("c1.critique") */
+  stage: string | null;
+  /** When set, console output for this run is written here instead of the terminal */
+  logFile: string | null;
+}
+
+const storage = new AsyncLocalStorage<RunContext>();
+
+/** Used outside any run (single commands) */
+const globalContext: RunContext = { attemptLog: null, usageLog: null, stage: null, logFile: null };
+
+export function runContext(): RunContext {
+  return storage.getStore() ?? globalContext;
+}
+
+/** True while executing inside `withRunContext` */
+export function inRunContext(): boolean {
+  return storage.getStore() !== undefined;
+}
+
+export function withRunContext<T>(context: Partial<RunContext>, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ attemptLog: null, usageLog: null, stage: null, logFile: null, ...context }, fn);
+}
+
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Send console.log/warn/error from runs that have a `logFile` to that file
+ * (without colors); everything else still reaches the terminal. Call once at
+ * startup.
+ */
+export function routeConsoleToRunLogs(): void {
+  for (const method of ["log", "warn", "error"] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      const { logFile } = runContext();
+      if (!logFile) return original(...args);
+      fs.appendFileSync(logFile, format(...args).replace(ANSI_ESCAPE, "") + "\n");
+    };
+  }
+}
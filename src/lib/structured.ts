@@ -0,0 +1,142 @@
+import * as fs from "fs-extra";
+import { ZodIssue, ZodTypeAny } from "zod";
+import { stripCodeFences } from "./json";
+import { toJsonSchema } from "./json-schema";
+import { callModel, ModelCall } from "./model-router";
+
+export interface StructuredCall extends Omit<ModelCall, "responseFormat" | "jsonSchema"> {
+  schema: ZodTypeAny;
+  /** Schema name sent to providers with a native schema mode ("critique", "plan", ...) */
+  schemaName: string;
+  /** Extra instruction appended to every repair request */
+  repairHint?: string;
+  /** Follow-up requests allowed after the first response fails validation (default 2) */
+  maxRepairs?: number;
+  /** Write each invalid response here so a failure can be inspected */
+  rawPath?: string;
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  /** Model calls made, including repairs */
+  attempts: number;
+  /** Fixes applied locally instead of asking the model again */
+  localFixes: string[];
+}
+
+/** The model's response still did not validate after every repair attempt */
+export class StructuredOutputError extends Error {
+  constructor(public schemaName: string, public issues: string[], public raw: string) {
+    super(`Invalid ${schemaName} JSON after repair attempts: ${issues.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export function formatIssue(issue: ZodIssue): string {
+  return `${issue.path.join(".") || "(root)"}: ${issue.message}`;
+}
+
+function parentAt(value: unknown, path: (string | number)[]): any {
+  let node: any = value;
+  for (const key of path.slice(0, -1)) {
+    if (node === null || typeof node !== "object") return undefined;
+    node = node[key];
+  }
+  return node;
+}
+
+/**
+ * Fix what can be fixed without another call: arrays over their `.max()` are
+ * truncated (models list in priority order, so the tail goes) and enum values
+ * that differ only in case or surrounding whitespace are normalized.
+ */
+export function repairLocally(value: unknown, schema: ZodTypeAny): { value: unknown; fixes: string[] } {
+  const fixes: string[] = [];
+  const copy = JSON.parse(JSON.stringify(value));
+
+  for (let pass = 0; pass < 5; pass++) {
+    const result = schema.safeParse(copy);
+    if (result.success) break;
+
+    let fixed = false;
+    for (const issue of result.error.issues) {
+      const parent = parentAt(copy, issue.path);
+      const key = issue.path[issue.path.length - 1];
+      if (parent === undefined || key === undefined) continue;
+      const label = issue.path.join(".");
+
+      if (issue.code === "too_big" && issue.type === "array" && Array.isArray(parent[key])) {
+        const max = Number(issue.maximum);
+        fixes.push(`${label}: truncated ${parent[key].length} items to ${max}`);
+        parent[key] = parent[key].slice(0, max);
+        fixed = true;
+      } else if (issue.code === "invalid_enum_value" && typeof parent[key] === "string") {
+        const match = issue.options.find(
+          (option) => String(option).toLowerCase() === parent[key].trim().toLowerCase()
+        );
+        if (match !== undefined) {
+          fixes.push(`${label}: "${parent[key]}" → "${match}"`);
+          parent[key] = match;
+          fixed = true;
+        }
+      }
+    }
+    if (!fixed) break;
+  }
+
+  return { value: copy, fixes };
+}
+
+type Validation<T> = { ok: true; value: T; fixes: string[] } | { ok: false; issues: string[] };
+
+function validate<T>(raw: string, schema: ZodTypeAny): Validation<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(raw));
+  } catch (err) {
+    return { ok: false, issues: [`response is not valid JSON (${(err as Error).message})`] };
+  }
+
+  const direct = schema.safeParse(parsed);
+  if (direct.success) return { ok: true, value: direct.data, fixes: [] };
+
+  const { value, fixes } = repairLocally(parsed, schema);
+  const repaired = schema.safeParse(value);
+  if (repaired.success) return { ok: true, value: repaired.data, fixes };
+  return { ok: false, issues: repaired.error.issues.map(formatIssue) };
+}
+
+/**
+ * Call a model for JSON matching `schema`. Providers with a native schema mode
+ * get the JSON Schema; everything else relies on the prompt. Responses that
+ * fail validation are repaired locally when possible, otherwise sent back to
+ * the model with the specific issues, up to `maxRepairs` times.
+ */
+export async function callStructured<T>(
+  call: StructuredCall,
+  onRepair?: (attempt: number, issues: string[]) => void
+): Promise<StructuredResult<T>> {
+  const { schema, schemaName, repairHint, maxRepairs = 2, rawPath, ...modelCall } = call;
+  const jsonSchema = { name: schemaName, schema: toJsonSchema(schema) };
+
+  let userPrompt = modelCall.userPrompt;
+  for (let attempt = 1; ; attempt++) {
+    const { text: raw } = await callModel({ ...modelCall, userPrompt, responseFormat: "json", jsonSchema });
+    const result = validate<T>(raw, schema);
+    if (result.ok) {
+      return { value: result.value, attempts: attempt, localFixes: result.fixes };
+    }
+
+    if (rawPath) await fs.writeFile(rawPath, raw);
+    if (attempt > maxRepairs) {
+      throw new StructuredOutputError(schemaName, result.issues, raw);
+    }
+    onRepair?.(attempt, result.issues);
+    userPrompt = [
+      modelCall.userPrompt,
+      `Your previous response:\n${raw.trim()}`,
+      `It failed validation:\n${result.issues.map((issue) => `- ${issue}`).join("\n")}`,
+      [repairHint, "Return only the corrected JSON."].filter(Boolean).join(" ")
+    ].join("\n\n");
+  }
+}
@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { Plan } from "../schemas";
+import { locateQuote } from "./grounding";
+import { beatAt, hasBeatTag, parseBeats, sentenceRange } from "./lint";
+import { evidenceQuote } from "./revision-check";
+
+type PlanValue = z.infer<typeof Plan>;
+
+/** Sentences of the story to rewrite and the plan items they carry out */
+export interface SpanEdit {
+  /** Offsets into the story before revision */
+  start: number;
+  end: number;
+  beat: string | null;
+  original: string;
+  /** "revision_plan[0]", "must_fix[1]" */
+  items: string[];
+  instructions: string[];
+}
+
+export interface AppliedEdit extends SpanEdit {
+  replacement: string;
+  /** Why the model's text was not spliced in; the original is kept */
+  rejected: string | null;
+}
+
+export interface SurgicalPlan {
+  mode: "surgical" | "full";
+  /** Why the whole story has to be rewritten */
+  reason: string | null;
+  edits: SpanEdit[];
+  /** revision_plan steps none of whose spans could be found; left for the next cycle */
+  unplaced: Array<{ id: string; text: string }>;
+}
+
+/**
+ * Decide how to carry out a plan. Any structural must_fix item means a
+ * whole-story rewrite. Otherwise every revision_plan target_span and line
+ * must_fix evidence quote is located and widened to its sentence(s); items
+ * that land on the same sentences share one edit. A must_fix item none of
+ * whose quotes can be found also means a whole-story rewrite, so it is never
+ * silently skipped.
+ */
+export function planSurgicalEdits(story: string, plan: PlanValue, minSimilarity: number): SurgicalPlan {
+  const structural = plan.must_fix.filter((item) => item.type === "structural").length;
+  if (structural) {
+    return { mode: "full", reason: `${structural} structural must-fix item(s)`, edits: [], unplaced: [] };
+  }
+
+  const items = [
+    ...plan.revision_plan.map((step, i) => ({ id: `revision_plan[${i}]`, text: step.action, quotes: [step.target_span] })),
+    ...plan.must_fix.map((item, i) => ({ id: `must_fix[${i}]`, text: item.issue, quotes: item.evidence.map(evidenceQuote) }))
+  ];
+
+  const { segments } = parseBeats(story);
+  const ranges: Array<{ start: number; end: number; id: string; text: string }> = [];
+  const unplaced: SurgicalPlan["unplaced"] = [];
+  for (const item of items) {
+    const before = ranges.length;
+    for (const quote of item.quotes) {
+      const found = locateQuote(story, quote, minSimilarity);
+      if (found.start === null || found.end === null) continue;
+      let [start, end] = sentenceRange(story, found.start, found.end);
+      while (start < end && /\s/.test(story[start])) start++;
+      while (end > start && /\s/.test(story[end - 1])) end--;
+      if (hasBeatTag(story.slice(start, end))) continue;
+      ranges.push({ start, end, id: item.id, text: item.text });
+    }
+    if (ranges.length === before) unplaced.push({ id: item.id, text: item.text });
+  }
+
+  const edits: SpanEdit[] = [];
+  for (const range of ranges.sort((a, b) => a.start - b.start)) {
+    const last = edits[edits.length - 1];
+    if (last && range.start < last.end) {
+      last.end = Math.max(last.end, range.end);
+      if (!last.items.includes(range.id)) last.items.push(range.id);
+      if (!last.instructions.includes(range.text)) last.instructions.push(range.text);
+      continue;
+    }
+    edits.push({ start: range.start, end: range.end, beat: null, original: "", items: [range.id], instructions: [range.text] });
+  }
+  for (const edit of edits) {
+    edit.original = story.slice(edit.start, edit.end);
+    edit.beat = beatAt(segments, edit.start);
+  }
+
+  const missing = unplaced.filter((item) => item.id.startsWith("must_fix"));
+  if (missing.length) {
+    return { mode: "full", reason: `${missing.length} must-fix item(s) not found in the story`, edits: [], unplaced: [] };
+  }
+  if (!edits.length && items.length) {
+    return { mode: "full", reason: "no line item's span could be found in the story", edits: [], unplaced: [] };
+  }
+  return { mode: "surgical", reason: null, edits, unplaced };
+}
+
+/** User prompt for one span rewrite: the span marked inside its beat, then the fixes */
+export function spanRequest(story: string, edit: SpanEdit): string {
+  const { segments } = parseBeats(story);
+  const segment = segments.find((s) => edit.start >= s.start && edit.end <= s.end);
+  const from = segment?.start ?? Math.max(0, edit.start - 300);
+  const to = segment?.end ?? Math.min(story.length, edit.end + 300);
+  const context = `${story.slice(from, edit.start)}<<${edit.original}>>${story.slice(edit.end, to)}`.trim();
+  const fixes = edit.instructions.map((text) => `- ${text}`).join("\n");
+  return `Passage in context${edit.beat ? ` (beat ${edit.beat})` : ""}:\n${context}\n\nFixes:\n${fixes}`;
+}
+
+/** Strip fences and stray markers from a span rewrite; returns a rejection reason for text that can't be spliced */
+export function cleanReplacement(text: string): { replacement: string; rejected: string | null } {
+  const replacement = text
+    .trim()
+    .replace(/^```\w*\n?|\n?```$/g, "")
+    .replace(/^<<|>>$/g, "")
+    .trim();
+  if (!replacement) return { replacement, rejected: "empty rewrite" };
+  if (hasBeatTag(replacement)) return { replacement, rejected: "rewrite contains a beat tag" };
+  return { replacement, rejected: null };
+}
+
+/** Replace each edit's span with its rewrite, last span first so earlier offsets stay valid */
+export function spliceEdits(story: string, edits: AppliedEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) => (edit.rejected ? text : text.slice(0, edit.start) + edit.replacement + text.slice(edit.end)),
+      story
+    );
+}
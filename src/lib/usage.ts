@@ -0,0 +1,148 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { PriceTable } from "../schemas";
+import { loadYamlConfig } from "./config";
+import { runContext } from "./run-context";
+
+export const DEFAULT_PRICES_FILE = path.join(__dirname, "..", "..", "config", "policies", "prices.yaml");
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+/** One line of a run's usage ledger */
+export interface UsageEntry {
+  ts: string;
+  /** Run stage id ("draft", "c2.critique", "publish"); null outside `run`/`resume` */
+  stage: string | null;
+  cycle: number | null;
+  role: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  /** null when the provider reported no usage or the model has no price */
+  cost_usd: number | null;
+  cached: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  /** Calls that spent tokens but could not be priced */
+  unpriced_calls: number;
+}
+
+let prices: PriceTable = {};
+
+export function configurePrices(table: PriceTable): void {
+  prices = table;
+}
+
+export async function loadPriceTable(file: string): Promise<PriceTable> {
+  return loadYamlConfig(file, PriceTable);
+}
+
+/** Append every call in the current run to `file` (JSONL); null turns the ledger off */
+export function setUsageLog(file: string | null): void {
+  runContext().usageLog = file;
+}
+
+/** Attribute the current run's subsequent calls to a stage ("c1.critique") */
+export function setUsageStage(stage: string | null): void {
+  runContext().stage = stage;
+}
+
+function cycleOf(stage: string | null): number | null {
+  const match = stage?.match(/^c(\d+)\./);
+  return match ? Number(match[1]) : null;
+}
+
+/** Exact `provider/model` entry, else the longest matching `prefix*` entry; replay/ is priced as the recorded model */
+export function priceFor(model: string): PriceTable[string] | null {
+  const key = model.startsWith("replay/") ? model.slice("replay/".length) : model;
+  if (prices[key]) return prices[key];
+  const wildcard = Object.keys(prices)
+    .filter((pattern) => pattern.endsWith("*") && key.startsWith(pattern.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return wildcard ? prices[wildcard] : null;
+}
+
+export function costOf(model: string, usage: TokenUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (usage.input_tokens * price.input_per_mtok + usage.output_tokens * price.output_per_mtok) / 1_000_000;
+}
+
+export async function recordUsage(
+  role: string,
+  response: { model: string; usage: TokenUsage | null; cached: boolean }
+): Promise<void> {
+  const { usageLog, stage } = runContext();
+  if (!usageLog) return;
+  const usage = response.usage ?? { input_tokens: 0, output_tokens: 0 };
+  const entry: UsageEntry = {
+    ts: new Date().toISOString(),
+    stage,
+    cycle: cycleOf(stage),
+    role,
+    model: response.model,
+    ...usage,
+    cost_usd: response.cached ? 0 : response.usage ? costOf(response.model, usage) : null,
+    cached: response.cached
+  };
+  await fs.ensureDir(path.dirname(usageLog));
+  await fs.appendFile(usageLog, JSON.stringify(entry) + "\n");
+}
+
+export async function readUsageLog(file: string): Promise<UsageEntry[]> {
+  if (!(await fs.pathExists(file))) return [];
+  const content = await fs.readFile(file, "utf-8");
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Sum entries, re-pricing any whose cost was unknown at call time (the price
+ * table may have been filled in since). Offline calls without usage are
+ * counted but never reported as unpriced.
+ */
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  const totals: UsageTotals = { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, unpriced_calls: 0 };
+  for (const entry of entries) {
+    totals.calls++;
+    totals.input_tokens += entry.input_tokens;
+    totals.output_tokens += entry.output_tokens;
+    const spent = entry.input_tokens + entry.output_tokens > 0;
+    const cost = entry.cost_usd ?? (spent ? costOf(entry.model, entry) : 0);
+    if (cost === null) totals.unpriced_calls++;
+    else totals.cost_usd += cost;
+  }
+  totals.cost_usd = Number(totals.cost_usd.toFixed(6));
+  return totals;
+}
+
+export function groupUsage(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Record<string, UsageTotals> {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Object.fromEntries([...groups].map(([key, group]) => [key, sumUsage(group)]));
+}
+
+/** Breakdown written under `usage` in 10-metadata.json */
+export function usageSummary(entries: UsageEntry[]) {
+  const unpriced = entries.filter((e) => e.cost_usd === null && e.input_tokens + e.output_tokens > 0 && !priceFor(e.model));
+  return {
+    total: sumUsage(entries),
+    by_stage: groupUsage(entries, (e) => e.stage ?? "none"),
+    by_cycle: groupUsage(entries, (e) => (e.cycle === null ? "outside_cycles" : `c${e.cycle}`)),
+    by_model: groupUsage(entries, (e) => e.model),
+    unpriced_models: [...new Set(unpriced.map((e) => e.model))]
+  };
+}
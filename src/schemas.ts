@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { FORMS, statedWordCap } from "./lib/forms";
 
 export const Ratings = z.object({
   clarity: z.number().min(0).max(3),
@@ -47,3 +48,260 @@ export const Plan = z.object({
 export const Retell = z.object({
   retell: z.string()
 });
+
+/** Prompt template names (files in src/prompts/ without `.txt`) */
+export const PromptName = z.enum([
+  "bible",
+  "writer",
+  "revise",
+  "revise_span",
+  "focus_group",
+  "aggregator",
+  "retell",
+  "title",
+  "retell_compare",
+  "tag_seed",
+  "verify_revision"
+]);
+
+export type PromptName = z.infer<typeof PromptName>;
+
+const BibleFields = z.object({
+  premise: z.string().min(1),
+  pov: z.string().min(1),
+  tense: z.string().min(1),
+  voice: z.string().min(1),
+  theme: z.string().min(1),
+  /** Built-in form (see FORMS): beat names, budgets and word cap */
+  form: z.string().optional(),
+  constraints: z.array(z.string()).default([]),
+  /** Custom beats and budgets, for a bible without a form */
+  beat_budget: z
+    .record(
+      // Names become the `[TAG]`s the story is linted for, so they must fit that pattern
+      z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "beat name must be a letter followed by letters, digits or _"),
+      z.number().int().positive()
+    )
+    .optional(),
+  must_include: z.array(z.string()).default([]),
+  off_limits: z.array(z.string()).default([]),
+  pov_lexicon: z.object({
+    filter_verbs: z.array(z.string()).default([]),
+    distance_phrases: z.array(z.string()).default([]),
+    allow: z.array(z.string()).default([])
+  }).strict().optional(),
+  gate_policy: z.string().optional(),
+  panel: z.string().optional(),
+  /** Prompt template overrides by name, paths relative to the bible file */
+  prompts: z.record(PromptName, z.string()).optional()
+}).strict();
+
+export const StoryBible = BibleFields.superRefine((bible, ctx) => {
+  if (bible.form === undefined) {
+    if (!bible.beat_budget) {
+      ctx.addIssue({ code: "custom", path: [], message: `set a form (${Object.keys(FORMS).join(", ")}) or a beat_budget` });
+    }
+    return;
+  }
+  const form = FORMS[bible.form];
+  if (!form) {
+    ctx.addIssue({ code: "custom", path: ["form"], message: `unknown form "${bible.form}" (known: ${Object.keys(FORMS).join(", ")})` });
+    return;
+  }
+  if (bible.beat_budget) {
+    ctx.addIssue({ code: "custom", path: ["beat_budget"], message: `form "${bible.form}" sets the beats; remove beat_budget or form` });
+  }
+  bible.constraints.forEach((constraint, i) => {
+    const cap = statedWordCap(constraint);
+    if (cap !== null && cap !== form.word_cap) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["constraints", i],
+        message: `states a ${cap}-word cap but form "${bible.form}" is ${form.word_cap} words`
+      });
+    }
+  });
+});
+
+export type StoryBible = z.infer<typeof StoryBible>;
+
+/** What the `bible` command asks a model for; a genre preset is applied afterwards */
+export const BibleDraft = BibleFields.pick({
+  premise: true,
+  pov: true,
+  tense: true,
+  voice: true,
+  theme: true,
+  constraints: true,
+  beat_budget: true,
+  must_include: true,
+  off_limits: true
+});
+
+/** BibleDraft when neither --form nor the preset supplies the beats, so the model must */
+export const BibleDraftWithBudget = BibleDraft.required({ beat_budget: true });
+
+/** Genre preset for `bible` (config/genres/<name>.yaml) */
+export const GenrePreset = z.object({
+  description: z.string().min(1),
+  /** Told to the model: what a premise in this genre needs */
+  guidance: z.string().default(""),
+  /** Fixed in every generated bible; a form (unless --form overrides it) replaces beat_budget */
+  form: z.string().optional(),
+  pov: z.string().optional(),
+  tense: z.string().optional(),
+  beat_budget: z
+    .record(
+      // Names become the `[TAG]`s the story is linted for, so they must fit that pattern
+      z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, "beat name must be a letter followed by letters, digits or _"),
+      z.number().int().positive()
+    )
+    .optional(),
+  /** Starting points the model adapts to the logline */
+  voice: z.string().optional(),
+  theme: z.string().optional(),
+  /** Added to every generated bible */
+  constraints: z.array(z.string()).default([]),
+  off_limits: z.array(z.string()).default([])
+}).strict();
+
+export type GenrePreset = z.infer<typeof GenrePreset>;
+
+const Range = z.tuple([z.number(), z.number()]).refine(([lo, hi]) => lo <= hi, "range must be [min, max]");
+
+export const GatePolicy = z.object({
+  min_avg_scores: z.object({
+    clarity: z.number().min(0).max(3).default(1.0),
+    stakes: z.number().min(0).max(3).default(1.0),
+    momentum: z.number().min(0).max(3).default(1.5),
+    ending_resonance: z.number().min(0).max(3).default(1.0)
+  }).strict().default({}),
+  max_confusions: z.number().int().nonnegative().default(15),
+  require_retell_match: z.boolean().default(false),
+  retell: z.object({
+    strategies: z.array(z.enum(["lexical", "llm"])).min(1).default(["lexical"]),
+    min_similarity: z.number().min(0).max(1).default(0.3),
+    adjudicator_model: z.string().optional(),
+    min_confidence: z.number().min(0).max(1).default(0.5)
+  }).strict().default({}),
+  require_lint: z.boolean().default(true),
+  require_pov: z.boolean().default(true),
+  plan_gate: z.object({
+    mode: z.enum(["ignore", "honor", "clamp"]).default("ignore"),
+    score_range: Range.default([0, 3]),
+    max_confusions_range: Range.default([0, 100])
+  }).strict().default({}),
+  /** Check that critique quotes appear in the story before aggregation */
+  grounding: z.object({
+    /** flag: keep ungrounded items, marked; drop: remove them before aggregation */
+    mode: z.enum(["flag", "drop"]).default("flag"),
+    min_similarity: z.number().min(0).max(1).default(0.8),
+    /** Gate rule: every judge must ground at least this share of its quotes */
+    min_rate: z.number().min(0).max(1).optional()
+  }).strict().default({}),
+  /** How a plan is carried out; `revise --mode` overrides */
+  revision: z.object({
+    /** full: rewrite the whole story; surgical: line fixes rewrite only their target sentences */
+    mode: z.enum(["surgical", "full"]).default("full")
+  }).strict().default({}),
+  /** Post-revision verification; `llm` adds a model check of each item's success_metric */
+  revision_check: z.object({
+    llm: z.boolean().default(false),
+    /** Defaults to the aggregator model */
+    model: z.string().optional()
+  }).strict().default({}),
+  /** Per-run spend limits for `run`; --max-cost / --max-calls override */
+  budget: z.object({
+    max_cost_usd: z.number().positive().optional(),
+    max_calls: z.number().int().positive().optional()
+  }).strict().default({})
+}).strict();
+
+export type GatePolicy = z.infer<typeof GatePolicy>;
+
+export const RevisionVerdicts = z.object({
+  items: z.array(z.object({
+    id: z.string(),
+    met: z.boolean(),
+    rationale: z.string()
+  }))
+});
+
+export const RetellVerdict = z.object({
+  same_events: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  rationale: z.string()
+});
+
+export const Judge = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "judge id must be lowercase letters, digits, - or _"),
+  model: z.string().min(1),
+  persona: z.string().optional(),
+  weight: z.number().positive().default(1)
+}).strict();
+
+export const Panel = z.object({
+  judges: z.array(Judge).min(1),
+  quorum: z.number().int().positive().optional()
+}).strict().superRefine((panel, ctx) => {
+  const ids = panel.judges.map((j) => j.id);
+  ids.forEach((id, i) => {
+    if (ids.indexOf(id) !== i) {
+      ctx.addIssue({ code: "custom", path: ["judges", i, "id"], message: `duplicate judge id "${id}"` });
+    }
+  });
+  if (panel.quorum !== undefined && panel.quorum > panel.judges.length) {
+    ctx.addIssue({ code: "custom", path: ["quorum"], message: `quorum exceeds the ${panel.judges.length} judge(s) on the panel` });
+  }
+});
+
+export type Judge = z.infer<typeof Judge>;
+export type Panel = z.infer<typeof Panel>;
+
+export const ResiliencePolicy = z.object({
+  retries: z.number().int().nonnegative().default(2),
+  base_delay_ms: z.number().int().positive().default(1000),
+  max_delay_ms: z.number().int().positive().default(30000),
+  /** Keyed by role ("critique.b") or role family ("critique"); `default` applies otherwise */
+  timeouts_ms: z.record(z.string(), z.number().int().positive()).default({}),
+  circuit_breaker: z.object({
+    failure_threshold: z.number().int().positive().default(5),
+    cooldown_ms: z.number().int().positive().default(60000)
+  }).strict().default({}),
+  /** Ordered fallback models per role or role family */
+  fallbacks: z.record(z.string(), z.array(z.string())).default({}),
+  /** Requests per minute per provider prefix ("openai", "compat:vllm"), shared by concurrent runs */
+  rate_limits: z.record(z.string(), z.number().positive()).default({})
+}).strict();
+
+export type ResiliencePolicy = z.infer<typeof ResiliencePolicy>;
+
+/** USD per million tokens, keyed by `provider/model` (a trailing `*` matches any suffix) */
+export const PriceTable = z.record(
+  z.string(),
+  z.object({
+    input_per_mtok: z.number().nonnegative(),
+    output_per_mtok: z.number().nonnegative()
+  }).strict()
+);
+
+export type PriceTable = z.infer<typeof PriceTable>;
+
+/** An OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM, ...) */
+export const CompatProvider = z.object({
+  base_url: z.string().url(),
+  /** Env var holding the API key; omit for servers that don't check one */
+  api_key_env: z.string().optional(),
+  max_tokens: z.number().int().positive().default(4096),
+  /** Server honors `response_format: {type: "json_object"}` */
+  json_mode: z.boolean().default(false)
+}).strict();
+
+/** Keyed by name; `local` backs the `local/` prefix, any name backs `compat:<name>/` */
+export const ProvidersConfig = z.record(
+  z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "provider name must be lowercase letters, digits, - or _"),
+  CompatProvider
+);
+
+export type CompatProvider = z.infer<typeof CompatProvider>;
+export type ProvidersConfig = z.infer<typeof ProvidersConfig>;